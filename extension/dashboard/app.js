@@ -192,7 +192,7 @@ function setupEventListeners() {
     // Sort
     sortBy.addEventListener('change', async () => {
         currentSort = sortBy.value;
-        currentSortOrder = sortBy.value === 'price' ? 'asc' : 'desc';
+        currentSortOrder = ['price', 'mileage', 'model'].includes(sortBy.value) ? 'asc' : 'desc';
         await loadListings(true);
     });
 
@@ -328,6 +328,7 @@ async function loadOpportunities() {
                     </div>
                     <div class="opportunity-badges">
                         <span class="badge badge-success">↓${opp.pctBelowMedian}% vs mediana</span>
+                        ${opp.score_breakdown ? `<span class="badge" title="${escapeHtml(formatScoreBreakdown(opp))}">Score ${opp.score}</span>` : ''}
                         ${isRecent(opp.created_at) ? '<span class="badge badge-new">Novo</span>' : ''}
                     </div>
                     <div class="opportunity-actions">
@@ -440,6 +441,10 @@ async function loadModels() {
                                     <span class="model-stat-pill" title="Faixa de Preço">
                                         💰 ${priceRange}
                                     </span>
+                                    ${m.avg_days_on_market != null ? `
+                                    <span class="model-stat-pill" title="Dias médios até sair da OLX (${m.removed_count} vendidos/removidos)">
+                                        ⏱️ ${m.avg_days_on_market}d
+                                    </span>` : ''}
                                 </div>
                             </div>
                             <div class="model-card-actions">
@@ -654,6 +659,15 @@ function formatDate(dateStr) {
     return date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
 }
 
+// Explain how each weighted component contributed to an opportunity score
+function formatScoreBreakdown(opp) {
+    const labels = { price: 'Preço', km: 'KM', recency: 'Recência', year: 'Ano' };
+    return Object.entries(opp.score_breakdown)
+        .filter(([, c]) => c.weight > 0)
+        .map(([key, c]) => `${labels[key] || key}: ${c.points} pts × ${c.weight}% = ${c.contribution}`)
+        .join('\n');
+}
+
 function formatPrice(value) {
     if (!value) return '-';
     return `R$ ${(value / 1000).toFixed(0)}k`;
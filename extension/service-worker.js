@@ -104,9 +104,9 @@ async function scanSearch(searchId) {
 
         const result = await response.json();
 
-        if (result.success && result.data && result.data.newCount > 0) {
+        if (result.success && result.data && (result.data.newCount > 0 || result.data.priceDropCount > 0)) {
             await showNotification(searchId, result.data);
-            await incrementBadge(result.data.newCount);
+            await incrementBadge(result.data.newCount + (result.data.priceDropCount || 0));
         }
     } catch (error) {
         console.error(`Error scanning search ${searchId}:`, error);
@@ -117,12 +117,16 @@ async function scanSearch(searchId) {
 async function showNotification(searchId, data) {
     const notificationId = `new-ads-${searchId}-${Date.now()}`;
 
+    const parts = [];
+    if (data.newCount > 0) parts.push(`${data.newCount} novos anúncios`);
+    if (data.priceDropCount > 0) parts.push(`${data.priceDropCount} baixas de preço`);
+
     // Create notification with action buttons
     await chrome.notifications.create(notificationId, {
         type: 'basic',
         iconUrl: chrome.runtime.getURL('icons/icon128.png'),
         title: `🚗 ${data.searchName || 'OLX Car Finder'}`,
-        message: `${data.newCount} novos anúncios encontrados!`,
+        message: `${parts.join(' e ')} encontrados!`,
         priority: 2,
         requireInteraction: true,
         buttons: [
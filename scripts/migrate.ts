@@ -0,0 +1,57 @@
+// Script to apply pending D1 migrations through the worker's /api/migrate endpoint
+// Run with: npm run db:migrate                                  (local `wrangler dev` on :8787)
+//           WORKER_URL=https://... API_TOKEN=... npm run db:migrate:prod
+//
+// A worker other than localhost needs API_TOKEN; only the local one falls back to
+// the placeholder token of wrangler.jsonc.
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1'];
+
+function resolveTarget(): { workerUrl: string; apiToken: string } {
+    const prod = process.argv.includes('--prod');
+    const workerUrl = process.env.WORKER_URL || (prod ? '' : 'http://localhost:8787');
+    if (!workerUrl) {
+        throw new Error('WORKER_URL is required with --prod (e.g. https://seu-worker.workers.dev)');
+    }
+
+    const local = LOCAL_HOSTS.includes(new URL(workerUrl).hostname);
+    if (prod && local) {
+        throw new Error(`--prod needs the deployed worker's URL, not ${workerUrl}`);
+    }
+
+    const apiToken = process.env.API_TOKEN || (local ? 'change-me-in-prod-please' : '');
+    if (!apiToken) {
+        throw new Error(`API_TOKEN is required to migrate ${workerUrl}`);
+    }
+
+    return { workerUrl, apiToken };
+}
+
+async function main() {
+    const { workerUrl, apiToken } = resolveTarget();
+    const headers = { 'X-Access-Token': apiToken };
+
+    console.log(`Applying migrations on ${workerUrl}...`);
+    const response = await fetch(`${workerUrl}/api/migrate`, { method: 'POST', headers });
+    const result = await response.json();
+
+    if (!result.success) {
+        console.error('Migration failed:', result.error);
+        process.exit(1);
+    }
+
+    const { applied, current_version } = result.data;
+    if (applied.length === 0) {
+        console.log(`Already up to date (version ${current_version})`);
+    } else {
+        for (const m of applied) {
+            console.log(`  applied ${m.version}_${m.name}${m.rows !== undefined ? ` (${m.rows} rows)` : ''}`);
+        }
+        console.log(`Now at version ${current_version}`);
+    }
+}
+
+main().catch(error => {
+    console.error('Error:', error);
+    process.exit(1);
+});
@@ -1,68 +1,63 @@
-// Script to test OLX data fetching and see properties
-// Run with: npx tsx scripts/test-olx-fetch.ts
+// Script to test OLX data fetching through the worker's fetcher and see properties
+// Run with: npx tsx scripts/test-olx-fetch.ts [search url] [pages]
+//           npx tsx scripts/test-olx-fetch.ts --record fixtures/olx/estado-rs.json [search url] [pages]
+//           npx tsx scripts/test-olx-fetch.ts --replay fixtures/olx/estado-rs.json
+//
+// --record saves every response (HTML page and _next/data pages) as fixtures;
+// --replay runs the same fetch offline from them (the search url is taken from the file).
 
-const OLX_BASE_URL = 'https://www.olx.com.br';
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { fetchAllPages } from '../src/services/olx-fetcher';
+import { HttpFixture, HttpFixtureFile, createRecordingTransport, createReplayTransport, getTransport, setTransport } from '../src/services/http-transport';
 
-async function extractBuildId(): Promise<string> {
-    const response = await fetch(`${OLX_BASE_URL}/autos-e-pecas/carros-vans-e-utilitarios/estado-rs`, {
-        headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-    });
-    const html = await response.text();
-    const match = html.match(/"buildId":"([^"]+)"/);
-    if (!match) throw new Error('Could not find buildId');
-    return match[1];
-}
-
-async function fetchOlxPage(buildId: string) {
-    const url = `${OLX_BASE_URL}/_next/data/${buildId}/autos-e-pecas/carros-vans-e-utilitarios/estado-rs.json?ps=20000&pe=35000`;
-    console.log('Fetching:', url);
+const DEFAULT_URL = 'https://www.olx.com.br/autos-e-pecas/carros-vans-e-utilitarios/estado-rs?ps=20000&pe=35000';
 
-    const response = await fetch(url, {
-        headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-            'Accept': 'application/json'
-        }
-    });
-
-    if (!response.ok) {
-        console.error('Failed:', response.status, response.statusText);
-        return;
+async function main() {
+    const args = process.argv.slice(2);
+    const mode = args[0] === '--record' || args[0] === '--replay' ? args.shift() : null;
+    const fixturePath = mode ? args.shift() : null;
+    if (mode && !fixturePath) throw new Error(`${mode} needs a fixture file path`);
+
+    let searchUrl = args[0] || DEFAULT_URL;
+    let pages = Number(args[1]) || 2;
+    const recorded: HttpFixture[] = [];
+
+    if (mode === '--replay') {
+        const file: HttpFixtureFile = JSON.parse(readFileSync(fixturePath!, 'utf8'));
+        searchUrl = file.search_url;
+        pages = file.pages;
+        setTransport(createReplayTransport(file.fixtures));
+        console.log(`Replaying ${file.fixtures.length} fixtures from ${fixturePath}`);
+    } else if (mode === '--record') {
+        setTransport(createRecordingTransport(getTransport(), fixture => recorded.push(fixture)));
     }
 
-    const data = await response.json();
-    const ads = data?.pageProps?.ads || [];
+    console.log(`Fetching ${pages} page(s) of ${searchUrl}`);
+    const stats = await fetchAllPages(searchUrl, 'test-script', pages);
 
-    console.log('\n=== FOUND', ads.length, 'ADS ===\n');
+    console.log('\n=== STATS ===');
+    console.log(`Pages ${stats.sp_min}-${stats.sp_max}, stop reason: ${stats.stop_reason}, requests: ${stats.requests_count}, ${stats.duration_ms}ms`);
+    if (stats.error_message) console.log('Error:', stats.error_message);
+    if (stats.decisions.length > 0) console.log('Fetch decisions:', stats.decisions);
 
-    // Show first 3 ads with all their properties
-    for (let i = 0; i < Math.min(3, ads.length); i++) {
-        const ad = ads[i];
-        console.log(`\n--- AD ${i + 1}: ${ad.subject} ---`);
-        console.log('Price:', ad.price);
-        console.log('URL:', ad.url);
-        console.log('\nPROPERTIES:');
-        if (ad.properties) {
-            ad.properties.forEach((p: any) => {
-                console.log(`  ${p.label}: ${p.value}`);
-            });
-        } else {
-            console.log('  (no properties)');
-        }
-        console.log('\nALL KEYS:', Object.keys(ad));
+    console.log('\n=== FOUND', stats.listings.length, 'LISTINGS ===\n');
+
+    // Show first 3 listings as parsed by parseAd
+    for (const listing of stats.listings.slice(0, 3)) {
+        console.log(`\n--- ${listing.list_id}: ${listing.subject} ---`);
+        console.log(listing);
     }
-}
 
-async function main() {
-    try {
-        console.log('Extracting buildId...');
-        const buildId = await extractBuildId();
-        console.log('BuildId:', buildId);
-        await fetchOlxPage(buildId);
-    } catch (error) {
-        console.error('Error:', error);
+    if (mode === '--record') {
+        const file: HttpFixtureFile = { search_url: searchUrl, pages, fixtures: recorded };
+        mkdirSync(dirname(fixturePath!), { recursive: true });
+        writeFileSync(fixturePath!, JSON.stringify(file, null, 2));
+        console.log(`\nRecorded ${recorded.length} fixtures to ${fixturePath}`);
     }
 }
 
-main();
+main().catch(error => {
+    console.error('Error:', error);
+    process.exit(1);
+});
@@ -0,0 +1,46 @@
+// Local stand-in for a webhook endpoint: prints deliveries and verifies signatures
+// Run with: WEBHOOK_SECRET=<secret from POST /api/searches/:id/webhooks> npx tsx scripts/webhook-receiver.ts
+// Then register http://localhost:8788/ as the webhook URL (or set PORT / FAIL_FIRST=2 to test retries)
+
+import { createServer } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const PORT = parseInt(process.env.PORT || '8788', 10);
+const SECRET = process.env.WEBHOOK_SECRET || '';
+let failuresLeft = parseInt(process.env.FAIL_FIRST || '0', 10);
+
+function verify(timestamp: string, body: string, header: string): boolean {
+    if (!SECRET) return false;
+    const expected = 'sha256=' + createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+    return expected.length === header.length && timingSafeEqual(Buffer.from(expected), Buffer.from(header));
+}
+
+const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+        const timestamp = String(req.headers['x-olx-timestamp'] || '');
+        const signature = String(req.headers['x-olx-signature'] || '');
+
+        if (failuresLeft > 0) {
+            failuresLeft--;
+            console.log(`Simulating failure (${failuresLeft} left)`);
+            res.writeHead(503).end();
+            return;
+        }
+
+        const valid = verify(timestamp, body, signature);
+        const payload = JSON.parse(body || '{}');
+        console.log(`\n=== ${req.headers['x-olx-event']} (signature ${valid ? 'OK' : 'INVALID'}) ===`);
+        console.log(`Search: ${payload.search?.name} (${payload.search?.id})`);
+        for (const alert of payload.alerts || []) {
+            console.log(`  [${alert.alert_type}] ${alert.subject} - ${alert.price} - ${alert.ad_url}`);
+        }
+
+        res.writeHead(valid || !SECRET ? 200 : 401).end();
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`Webhook receiver listening on http://localhost:${PORT}/`);
+});
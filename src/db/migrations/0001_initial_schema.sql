@@ -1,4 +1,4 @@
--- OLX Car Finder Database Schema
+-- Baseline schema (as shipped in the original schema.sql)
 
 -- Saved searches from OLX
 CREATE TABLE IF NOT EXISTS saved_searches (
@@ -28,7 +28,6 @@ CREATE TABLE IF NOT EXISTS seen_ids (
     UNIQUE(search_id, list_id)
 );
 
--- Index for efficient lookups
 CREATE INDEX IF NOT EXISTS idx_seen_ids_search ON seen_ids(search_id);
 CREATE INDEX IF NOT EXISTS idx_seen_ids_list ON seen_ids(search_id, list_id);
 
@@ -44,12 +43,11 @@ CREATE TABLE IF NOT EXISTS alerts (
     ad_url TEXT,
     model TEXT,
     thumbnail_url TEXT,
-    status TEXT DEFAULT 'new',  -- new, opened, muted
+    status TEXT DEFAULT 'new',  -- new, seen, opened, muted, favorite
     created_at TEXT DEFAULT (datetime('now')),
     FOREIGN KEY (search_id) REFERENCES saved_searches(id) ON DELETE CASCADE
 );
 
--- Index for efficient alert queries
 CREATE INDEX IF NOT EXISTS idx_alerts_search ON alerts(search_id);
 CREATE INDEX IF NOT EXISTS idx_alerts_status ON alerts(status);
 
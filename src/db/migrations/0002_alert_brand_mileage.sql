@@ -0,0 +1,3 @@
+-- Columns written by createAlerts but missing from the original schema
+ALTER TABLE alerts ADD COLUMN brand TEXT;
+ALTER TABLE alerts ADD COLUMN mileage INTEGER;
@@ -0,0 +1,18 @@
+-- Per-scan reliability stats written by scanSearch and the scheduler
+CREATE TABLE IF NOT EXISTS execution_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    search_id TEXT NOT NULL,
+    sp_min INTEGER DEFAULT 0,
+    sp_max INTEGER DEFAULT 0,
+    listings_count INTEGER DEFAULT 0,
+    new_listings_count INTEGER DEFAULT 0,
+    first_list_id TEXT,
+    stop_reason TEXT NOT NULL,  -- completed, limit, loop, error, empty, budget
+    duration_ms INTEGER DEFAULT 0,
+    requests_count INTEGER DEFAULT 0,
+    error_message TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    FOREIGN KEY (search_id) REFERENCES saved_searches(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_execution_logs_search ON execution_logs(search_id, created_at);
@@ -0,0 +1,16 @@
+-- Observed prices per listing (one row per distinct price)
+CREATE TABLE IF NOT EXISTS price_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    list_id TEXT NOT NULL,
+    search_id TEXT NOT NULL,
+    price TEXT,
+    price_value REAL NOT NULL,
+    first_seen_at TEXT DEFAULT (datetime('now')),
+    last_seen_at TEXT DEFAULT (datetime('now')),
+    FOREIGN KEY (search_id) REFERENCES saved_searches(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_history_list ON price_history(list_id);
+
+ALTER TABLE alerts ADD COLUMN alert_type TEXT DEFAULT 'new';  -- new, price_drop (last event for this ad)
+ALTER TABLE alerts ADD COLUMN previous_price TEXT;            -- price before the drop (price_drop only)
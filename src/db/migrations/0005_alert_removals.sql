@@ -0,0 +1,6 @@
+-- Removal detection (sold/delisted ads) and time on market
+ALTER TABLE alerts ADD COLUMN last_seen_at TEXT;              -- last scan that returned this ad
+ALTER TABLE alerts ADD COLUMN missed_scans INTEGER DEFAULT 0; -- consecutive covering scans without this ad
+ALTER TABLE alerts ADD COLUMN removed_at TEXT;                -- delisted (sold/removed) timestamp
+
+CREATE INDEX IF NOT EXISTS idx_alerts_list ON alerts(search_id, list_id);
@@ -0,0 +1,13 @@
+-- Typed listing attributes parsed from OlxAd properties
+ALTER TABLE alerts ADD COLUMN price_cents INTEGER;
+ALTER TABLE alerts ADD COLUMN year INTEGER;
+ALTER TABLE alerts ADD COLUMN version TEXT;
+ALTER TABLE alerts ADD COLUMN fuel TEXT;
+ALTER TABLE alerts ADD COLUMN gearbox TEXT;
+ALTER TABLE alerts ADD COLUMN color TEXT;
+ALTER TABLE alerts ADD COLUMN doors INTEGER;
+ALTER TABLE alerts ADD COLUMN engine TEXT;
+ALTER TABLE alerts ADD COLUMN car_type TEXT;
+ALTER TABLE alerts ADD COLUMN steering TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_price ON alerts(search_id, price_cents);
@@ -0,0 +1,2 @@
+-- Per-search rule filters (price range, mileage, year, municipality, keywords)
+ALTER TABLE saved_searches ADD COLUMN rules TEXT DEFAULT '{}';  -- JSON object (SearchRules)
@@ -0,0 +1,30 @@
+-- Webhook endpoints notified when a scan creates alerts
+CREATE TABLE IF NOT EXISTS webhooks (
+    id TEXT PRIMARY KEY,
+    search_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,            -- HMAC-SHA256 signing key
+    active INTEGER DEFAULT 1,
+    created_at TEXT DEFAULT (datetime('now')),
+    FOREIGN KEY (search_id) REFERENCES saved_searches(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_search ON webhooks(search_id);
+
+-- One row per delivery (after all retries)
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id TEXT NOT NULL,
+    search_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    alerts_count INTEGER DEFAULT 0,
+    status TEXT NOT NULL,            -- delivered, failed
+    attempts INTEGER DEFAULT 0,
+    response_status INTEGER,
+    error_message TEXT,
+    duration_ms INTEGER DEFAULT 0,
+    created_at TEXT DEFAULT (datetime('now')),
+    FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at);
@@ -0,0 +1,9 @@
+-- Telegram chats that receive the alerts of a search
+CREATE TABLE IF NOT EXISTS telegram_chats (
+    id TEXT PRIMARY KEY,
+    search_id TEXT NOT NULL,
+    chat_id TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now')),
+    FOREIGN KEY (search_id) REFERENCES saved_searches(id) ON DELETE CASCADE,
+    UNIQUE(search_id, chat_id)
+);
@@ -0,0 +1,34 @@
+-- User accounts; saved searches and alerts are owned by a user
+CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT,
+    is_admin INTEGER DEFAULT 0,
+    created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Personal API tokens, stored as SHA-256 hashes (the plain token is shown only once)
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT,
+    token_hash TEXT NOT NULL UNIQUE,
+    token_prefix TEXT NOT NULL,      -- First characters, to tell tokens apart in listings
+    last_used_at TEXT,
+    revoked_at TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id);
+
+ALTER TABLE saved_searches ADD COLUMN user_id TEXT REFERENCES users(id);
+ALTER TABLE alerts ADD COLUMN user_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_alerts_user ON alerts(user_id, created_at);
+
+-- Existing data belongs to the admin account (the one the shared API_TOKEN maps to)
+INSERT OR IGNORE INTO users (id, name, is_admin) VALUES ('admin', 'Admin', 1);
+UPDATE saved_searches SET user_id = 'admin' WHERE user_id IS NULL;
+UPDATE alerts SET user_id = (SELECT user_id FROM saved_searches WHERE saved_searches.id = alerts.search_id) WHERE user_id IS NULL;
@@ -0,0 +1,26 @@
+-- Users a search is shared with (the owner is saved_searches.user_id)
+CREATE TABLE IF NOT EXISTS search_members (
+    search_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL,              -- editor, viewer
+    created_at TEXT DEFAULT (datetime('now')),
+    PRIMARY KEY (search_id, user_id),
+    FOREIGN KEY (search_id) REFERENCES saved_searches(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_members_user ON search_members(user_id);
+
+-- Read-only share links; the link itself is a signed token carrying the share id
+CREATE TABLE IF NOT EXISTS search_shares (
+    id TEXT PRIMARY KEY,
+    search_id TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    label TEXT,
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    FOREIGN KEY (search_id) REFERENCES saved_searches(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_shares_search ON search_shares(search_id);
@@ -0,0 +1,47 @@
+-- Canonical ad, one row per OLX list_id, shared by every search that matched it.
+-- alerts rows are the search membership of an ad and keep the per-search state
+-- (status, alert_type, missed_scans...); ads.removed_at is set once no search sees it.
+CREATE TABLE IF NOT EXISTS ads (
+    list_id TEXT PRIMARY KEY,
+    subject TEXT,
+    price TEXT,
+    municipality TEXT,
+    neighbourhood TEXT,
+    ad_url TEXT,
+    brand TEXT,
+    model TEXT,
+    thumbnail_url TEXT,
+    mileage INTEGER,
+    price_cents INTEGER,
+    year INTEGER,
+    version TEXT,
+    fuel TEXT,
+    gearbox TEXT,
+    color TEXT,
+    doors INTEGER,
+    engine TEXT,
+    car_type TEXT,
+    steering TEXT,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT,
+    removed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_ads_model ON ads(model);
+CREATE INDEX IF NOT EXISTS idx_alerts_list_id ON alerts(list_id);
+
+-- Backfill from existing alerts (latest row per list_id for the listing fields)
+INSERT OR IGNORE INTO ads (
+    list_id, subject, price, municipality, neighbourhood, ad_url, brand, model, thumbnail_url,
+    mileage, price_cents, year, version, fuel, gearbox, color, doors, engine, car_type, steering,
+    first_seen_at, last_seen_at, removed_at
+)
+SELECT
+    a.list_id, a.subject, a.price, a.municipality, a.neighbourhood, a.ad_url, a.brand, a.model, a.thumbnail_url,
+    a.mileage, a.price_cents, a.year, a.version, a.fuel, a.gearbox, a.color, a.doors, a.engine, a.car_type, a.steering,
+    (SELECT MIN(created_at) FROM alerts WHERE list_id = a.list_id),
+    (SELECT MAX(last_seen_at) FROM alerts WHERE list_id = a.list_id),
+    CASE WHEN EXISTS (SELECT 1 FROM alerts WHERE list_id = a.list_id AND removed_at IS NULL) THEN NULL
+         ELSE (SELECT MAX(removed_at) FROM alerts WHERE list_id = a.list_id) END
+FROM alerts a
+WHERE a.id = (SELECT MAX(id) FROM alerts WHERE list_id = a.list_id);
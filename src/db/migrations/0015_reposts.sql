@@ -0,0 +1,13 @@
+-- Repost detection: an ad deleted and published again under a new list_id is
+-- linked to the earlier one, and inherits its price history
+ALTER TABLE ads ADD COLUMN repost_of TEXT;                -- list_id of the previous publication
+ALTER TABLE ads ADD COLUMN repost_root TEXT;              -- list_id of the first publication
+ALTER TABLE ads ADD COLUMN repost_count INTEGER DEFAULT 0;
+ALTER TABLE ads ADD COLUMN original_price_cents INTEGER;  -- Price when first published
+
+ALTER TABLE alerts ADD COLUMN repost_of TEXT;
+ALTER TABLE alerts ADD COLUMN repost_count INTEGER DEFAULT 0;
+ALTER TABLE alerts ADD COLUMN original_price_cents INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_ads_fingerprint ON ads(model, year);
+CREATE INDEX IF NOT EXISTS idx_ads_repost_of ON ads(repost_of);
@@ -0,0 +1,37 @@
+-- Market snapshot: every ad returned by a search's scans, before any filter.
+-- Replaces the unused listings cache of the initial schema (never written to),
+-- keyed per search so each search has its own view of the market.
+DROP TABLE IF EXISTS listings;
+
+CREATE TABLE IF NOT EXISTS listings (
+    search_id TEXT NOT NULL,
+    list_id TEXT NOT NULL,
+    subject TEXT,
+    price TEXT,
+    price_cents INTEGER,
+    municipality TEXT,
+    neighbourhood TEXT,
+    ad_url TEXT,
+    brand TEXT,
+    model TEXT,
+    thumbnail_url TEXT,
+    mileage INTEGER,
+    year INTEGER,
+    version TEXT,
+    fuel TEXT,
+    gearbox TEXT,
+    color TEXT,
+    doors INTEGER,
+    engine TEXT,
+    car_type TEXT,
+    steering TEXT,
+    date_ts TEXT,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    PRIMARY KEY (search_id, list_id),
+    FOREIGN KEY (search_id) REFERENCES saved_searches(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_listings_list ON listings(list_id);
+CREATE INDEX IF NOT EXISTS idx_listings_model ON listings(model, year);
+CREATE INDEX IF NOT EXISTS idx_listings_last_seen ON listings(last_seen_at);
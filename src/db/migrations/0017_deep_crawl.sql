@@ -0,0 +1,6 @@
+-- Deep crawl: opt-in walk over every result page, a few pages per scheduled run.
+-- saved_searches.last_sp_scanned (from the initial schema) is the crawl cursor.
+ALTER TABLE saved_searches ADD COLUMN crawl_enabled INTEGER DEFAULT 0;
+ALTER TABLE saved_searches ADD COLUMN crawl_anchor_id TEXT;   -- Page 1's first list_id when the crawl cycle started
+
+ALTER TABLE execution_logs ADD COLUMN mode TEXT DEFAULT 'quick';  -- quick, crawl
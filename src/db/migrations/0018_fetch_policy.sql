@@ -0,0 +1,12 @@
+-- Circuit breaker state of the OLX fetches (one row per upstream)
+CREATE TABLE IF NOT EXISTS fetch_circuit (
+    id TEXT PRIMARY KEY,
+    consecutive_failures INTEGER DEFAULT 0,  -- Scans in a row that ended blocked (403/429)
+    trips INTEGER DEFAULT 0,                 -- Times it opened since the last good scan
+    open_until TEXT,                         -- Scanning is paused until then
+    updated_at TEXT
+);
+
+-- Fetch policy decisions (retries, give-ups, circuit) of each scan
+ALTER TABLE execution_logs ADD COLUMN retries_count INTEGER DEFAULT 0;
+ALTER TABLE execution_logs ADD COLUMN fetch_decisions TEXT;  -- JSON array of FetchDecision
@@ -0,0 +1,2 @@
+-- How each scan read its pages: next_data (_next/data endpoint) or html (__NEXT_DATA__ fallback)
+ALTER TABLE execution_logs ADD COLUMN fetch_strategy TEXT DEFAULT 'next_data';
@@ -0,0 +1,10 @@
+-- Opt-in fetch of the detail page of new alerts
+ALTER TABLE saved_searches ADD COLUMN enrich_enabled INTEGER DEFAULT 0;
+
+-- Fields only found on the ad detail page
+ALTER TABLE alerts ADD COLUMN description TEXT;
+ALTER TABLE alerts ADD COLUMN photos TEXT;          -- JSON array of image URLs
+ALTER TABLE alerts ADD COLUMN optionals TEXT;       -- JSON array (Ar condicionado, Direção hidráulica...)
+ALTER TABLE alerts ADD COLUMN seller_type TEXT;     -- professional | private
+ALTER TABLE alerts ADD COLUMN phone_verified INTEGER;
+ALTER TABLE alerts ADD COLUMN enriched_at TEXT;
@@ -0,0 +1,22 @@
+-- Canonical brand/model/version names (kind = brand | model | version)
+CREATE TABLE IF NOT EXISTS catalog_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    brand TEXT NOT NULL DEFAULT '',  -- Canonical brand of a model or version
+    model TEXT NOT NULL DEFAULT '',  -- Canonical model of a version
+    name TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now')),
+    UNIQUE (kind, brand, model, name)
+);
+
+-- Names an entry is also written as, in lookup form (lowercase, no accents or punctuation)
+CREATE TABLE IF NOT EXISTS catalog_aliases (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    entry_id INTEGER NOT NULL,
+    alias TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now')),
+    FOREIGN KEY (entry_id) REFERENCES catalog_entries(id) ON DELETE CASCADE,
+    UNIQUE (entry_id, alias)
+);
+
+CREATE INDEX IF NOT EXISTS idx_catalog_aliases_alias ON catalog_aliases(alias);
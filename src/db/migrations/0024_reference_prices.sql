@@ -0,0 +1,14 @@
+-- Imported reference price table (FIPE-style), keyed by the normalized "Brand Model"
+CREATE TABLE IF NOT EXISTS reference_prices (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    brand TEXT,
+    model TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    version TEXT NOT NULL DEFAULT '',  -- Model text as written in the table (one row per version)
+    price_cents INTEGER NOT NULL,
+    source TEXT,
+    imported_at TEXT DEFAULT (datetime('now')),
+    UNIQUE (model, year, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reference_prices_model_year ON reference_prices(model, year);
@@ -0,0 +1,4 @@
+-- Index on alerts(list_id) for ads <-> alerts lookups. Migration 14 created it
+-- under the name of the (search_id, list_id) index of migration 5, so on
+-- databases migrated before the fix it was never created.
+CREATE INDEX IF NOT EXISTS idx_alerts_list_id ON alerts(list_id);
@@ -0,0 +1,3 @@
+-- Price changes are detected per search, so the latest row of each ad is
+-- looked up by (search_id, list_id)
+CREATE INDEX IF NOT EXISTS idx_price_history_search_list ON price_history(search_id, list_id);
@@ -0,0 +1,10 @@
+-- Alert statuses restored from a backup for ads that have no alert yet in this
+-- database; applied (and deleted) when the search creates the alert
+CREATE TABLE IF NOT EXISTS pending_alert_statuses (
+    search_id TEXT NOT NULL,
+    list_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now')),
+    PRIMARY KEY (search_id, list_id),
+    FOREIGN KEY (search_id) REFERENCES saved_searches(id) ON DELETE CASCADE
+);
@@ -0,0 +1,131 @@
+/**
+ * Migration registry
+ * Ordered list of schema (SQL) and data (TS) migrations applied by the migrator service.
+ * Never edit or renumber an applied migration; add a new one instead.
+ */
+
+import { Env } from '../../types';
+import initialSchema from './0001_initial_schema.sql';
+import alertBrandMileage from './0002_alert_brand_mileage.sql';
+import executionLogs from './0003_execution_logs.sql';
+import priceHistory from './0004_price_history.sql';
+import alertRemovals from './0005_alert_removals.sql';
+import structuredListingFields from './0007_structured_listing_fields.sql';
+import searchRules from './0009_search_rules.sql';
+import webhooks from './0010_webhooks.sql';
+import telegramChats from './0011_telegram_chats.sql';
+import users from './0012_users.sql';
+import searchSharing from './0013_search_sharing.sql';
+import ads from './0014_ads.sql';
+import reposts from './0015_reposts.sql';
+import marketSnapshot from './0016_market_snapshot.sql';
+import deepCrawl from './0017_deep_crawl.sql';
+import fetchPolicy from './0018_fetch_policy.sql';
+import fetchStrategy from './0019_fetch_strategy.sql';
+import adDetails from './0020_ad_details.sql';
+import catalog from './0021_catalog.sql';
+import referencePrices from './0024_reference_prices.sql';
+import alertsListIdIndex from './0025_alerts_list_id_index.sql';
+import priceHistorySearchIndex from './0026_price_history_search_index.sql';
+import pendingAlertStatuses from './0027_pending_alert_statuses.sql';
+
+export interface Migration {
+    version: number;
+    name: string;
+    sql?: string;                               // Schema migration
+    run?: (env: Env) => Promise<number | void>; // Data migration (returns rows touched)
+}
+
+/**
+ * Fill in missing alert models from the ad subject
+ * (replaces the old ad-hoc POST /api/migrate-models route)
+ */
+async function backfillAlertModels(env: Env): Promise<number> {
+    const { extractModelFromSubject } = await import('../../services/olx-fetcher');
+
+    const { results } = await env.DB.prepare(
+        'SELECT id, subject FROM alerts WHERE model IS NULL AND subject IS NOT NULL'
+    ).all<{ id: number; subject: string }>();
+
+    const stmt = env.DB.prepare('UPDATE alerts SET model = ? WHERE id = ?');
+    const batch = results
+        .map(row => ({ id: row.id, model: extractModelFromSubject(row.subject) }))
+        .filter(row => row.model)
+        .map(row => stmt.bind(row.model, row.id));
+
+    if (batch.length > 0) {
+        await env.DB.batch(batch);
+    }
+
+    return batch.length;
+}
+
+/**
+ * Parse the display price of existing alerts into price_cents
+ */
+async function backfillPriceCents(env: Env): Promise<number> {
+    const { parsePriceCents } = await import('../../services/olx-fetcher');
+
+    const { results } = await env.DB.prepare(
+        'SELECT id, price FROM alerts WHERE price_cents IS NULL AND price IS NOT NULL'
+    ).all<{ id: number; price: string }>();
+
+    const stmt = env.DB.prepare('UPDATE alerts SET price_cents = ? WHERE id = ?');
+    const batch = results
+        .map(row => ({ id: row.id, cents: parsePriceCents(row.price) }))
+        .filter(row => row.cents !== null)
+        .map(row => stmt.bind(row.cents, row.id));
+
+    if (batch.length > 0) {
+        await env.DB.batch(batch);
+    }
+
+    return batch.length;
+}
+
+/**
+ * Insert the built-in brand/model catalog
+ */
+async function seedBrandCatalog(env: Env): Promise<number> {
+    const { seedCatalog } = await import('../../services/catalog');
+    return seedCatalog(env);
+}
+
+/**
+ * Apply the catalog to the brand/model/version of existing alerts, ads and market snapshot
+ */
+async function normalizeAdNames(env: Env): Promise<number> {
+    const { renormalizeStoredAds } = await import('../../services/catalog');
+    const { tables } = await renormalizeStoredAds(env);
+    return tables.reduce((sum, table) => sum + table.updated, 0);
+}
+
+export const migrations: Migration[] = [
+    { version: 1, name: 'initial_schema', sql: initialSchema },
+    { version: 2, name: 'alert_brand_mileage', sql: alertBrandMileage },
+    { version: 3, name: 'execution_logs', sql: executionLogs },
+    { version: 4, name: 'price_history', sql: priceHistory },
+    { version: 5, name: 'alert_removals', sql: alertRemovals },
+    { version: 6, name: 'backfill_alert_models', run: backfillAlertModels },
+    { version: 7, name: 'structured_listing_fields', sql: structuredListingFields },
+    { version: 8, name: 'backfill_price_cents', run: backfillPriceCents },
+    { version: 9, name: 'search_rules', sql: searchRules },
+    { version: 10, name: 'webhooks', sql: webhooks },
+    { version: 11, name: 'telegram_chats', sql: telegramChats },
+    { version: 12, name: 'users', sql: users },
+    { version: 13, name: 'search_sharing', sql: searchSharing },
+    { version: 14, name: 'ads', sql: ads },
+    { version: 15, name: 'reposts', sql: reposts },
+    { version: 16, name: 'market_snapshot', sql: marketSnapshot },
+    { version: 17, name: 'deep_crawl', sql: deepCrawl },
+    { version: 18, name: 'fetch_policy', sql: fetchPolicy },
+    { version: 19, name: 'fetch_strategy', sql: fetchStrategy },
+    { version: 20, name: 'ad_details', sql: adDetails },
+    { version: 21, name: 'catalog', sql: catalog },
+    { version: 22, name: 'seed_catalog', run: seedBrandCatalog },
+    { version: 23, name: 'normalize_ad_names', run: normalizeAdNames },
+    { version: 24, name: 'reference_prices', sql: referencePrices },
+    { version: 25, name: 'alerts_list_id_index', sql: alertsListIdIndex },
+    { version: 26, name: 'price_history_search_index', sql: priceHistorySearchIndex },
+    { version: 27, name: 'pending_alert_statuses', sql: pendingAlertStatuses },
+];
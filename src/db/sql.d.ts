@@ -0,0 +1,5 @@
+// .sql files are bundled as Text modules (see "rules" in wrangler.jsonc)
+declare module '*.sql' {
+    const sql: string;
+    export default sql;
+}
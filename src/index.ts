@@ -1,18 +1,66 @@
 /**
  * OLX Car Finder - Cloudflare Worker Entry Point
  * 
- * API Routes:
- * - GET    /api/searches          - List all saved searches
- * - POST   /api/searches          - Create a new search
- * - GET    /api/searches/:id      - Get a specific search
- * - PUT    /api/searches/:id      - Update a search
- * - DELETE /api/searches/:id      - Delete a search
+ * API Routes (scoped to the caller's account; see X-Access-Token in middleware/auth):
+ * - GET    /api/me                - The caller's account
+ * - GET    /api/tokens            - List the caller's API tokens
+ * - POST   /api/tokens            - Create an API token (returned once, stored hashed)
+ * - DELETE /api/tokens/:id        - Revoke an API token
+ * - GET    /api/users             - List users (admin)
+ * - POST   /api/users             - Create a user and its first token (admin)
+ * - GET    /api/searches          - List saved searches owned by or shared with the caller
+ * - POST   /api/searches          - Create a new search (the caller becomes its owner)
+ * - GET    /api/searches/:id      - Get a specific search (with the caller's role)
+ * - PUT    /api/searches/:id      - Update a search (editor)
+ * - DELETE /api/searches/:id      - Delete a search (owner)
+ * - GET    /api/searches/:id/members - List the owner and members of a search
+ * - PUT    /api/searches/:id/members/:userId - Add/update a member as editor or viewer (owner)
+ * - DELETE /api/searches/:id/members/:userId - Remove a member (owner)
+ * - GET    /api/searches/:id/shares - List read-only share links (owner)
+ * - POST   /api/searches/:id/shares - Create a signed, expiring share link (owner)
+ * - DELETE /api/shares/:id        - Revoke a share link (owner)
+ * - GET    /share/:token/listings - Shared listings, no API token needed
+ * - GET    /share/:token/opportunities - Shared opportunities, no API token needed
  * - GET    /api/searches/:id/alerts - Get alerts for a search
- * - POST   /api/scan              - Trigger manual scan for all searches
+ * - GET    /api/searches/:id/trends - Model time series: median price/km, new and removed ads (?model=, ?bucket=day|week|month, ?since=)
+ * - GET    /api/searches/:id/listings?format=csv|jsonl|xlsx - Export the filtered/sorted listings
+ * - GET    /api/searches/:id/opportunities?format=csv|jsonl|xlsx - Export the scored opportunities
+ * - GET    /api/alerts/:id        - Get an alert with its detail page fields (description, photos...)
+ * - POST   /api/scan              - Trigger manual scan for all searches (?due=true: only due ones)
  * - POST   /api/scan/:id          - Trigger manual scan for a specific search
+ * - GET    /api/listings/:listId/history - Get the observed price history of an ad
+ * - GET    /api/searches/:id/webhooks - List webhooks of a search
+ * - POST   /api/searches/:id/webhooks - Register a webhook (returns its signing secret)
+ * - DELETE /api/webhooks/:id      - Remove a webhook
+ * - GET    /api/webhooks/:id/deliveries - Delivery log of a webhook
+ * - POST   /api/webhooks/:id/test - Send a signed test payload
+ * - GET    /api/searches/:id/telegram - List Telegram chats of a search
+ * - POST   /api/searches/:id/telegram - Register a Telegram chat for a search
+ * - DELETE /api/telegram/chats/:id - Remove a Telegram chat
+ * - POST   /api/telegram/setup    - Point the bot's webhook at this worker (admin)
+ * - POST   /telegram/webhook      - Telegram updates (inline buttons), secret-header auth
+ * - GET    /api/digest            - Digest of a period (?period=day|week, ?format=json|html|text)
+ * - POST   /api/digest/send       - Build and deliver a digest through the configured senders
+ * - GET    /api/export            - Backup bundle of the caller's searches, alert statuses and seen IDs
+ * - POST   /api/import            - Restore a backup bundle (?mode=merge|replace), reporting conflicts
+ * - GET    /api/migrations        - List schema/data migrations and their state (admin)
+ * - POST   /api/migrate           - Apply pending migrations (admin)
+ * - POST   /api/retention         - Delete rows past their retention period now (admin, also runs daily)
+ * - GET    /api/catalog           - Canonical brands/models/versions with their aliases (?kind=)
+ * - POST   /api/catalog           - Add a canonical brand, model or version (admin)
+ * - DELETE /api/catalog/:id       - Remove a catalog entry and everything under it (admin)
+ * - POST   /api/catalog/:id/aliases - Add an alias to a catalog entry (admin)
+ * - DELETE /api/catalog/aliases/:id - Remove an alias (admin)
+ * - POST   /api/catalog/renormalize - Re-apply the catalog to stored alerts, ads and market (admin)
+ * - GET    /api/reference-prices  - Reference price table (?model=, ?year=)
+ * - POST   /api/reference-prices  - Import reference prices, JSON rows or CSV (admin, ?replace=true, ?source=)
+ * - DELETE /api/reference-prices  - Clear the reference price table (admin)
+ * - GET    /api/fetch-circuit     - Circuit breaker state of the OLX fetcher (admin)
+ * - DELETE /api/fetch-circuit     - Close the circuit breaker, resuming scans (admin)
  */
 
-import { Env, ApiResponse, CreateSearchRequest, UpdateSearchRequest, SavedSearch, SavedSearchRow, Alert } from './types';
+import { Env, ApiResponse, CreateSearchRequest, UpdateSearchRequest, SavedSearch, SavedSearchRow, Alert, CreateWebhookRequest, CreateCatalogEntryRequest, ReferencePrice, ReferencePriceInput, ListingView, BackupBundle, Webhook, WebhookDelivery, TelegramChat, User, CreateUserRequest, SearchRole, SearchMember } from './types';
+import { parseWeights } from './services/scoring';
 
 // Generate UUID for new searches
 function generateId(): string {
@@ -37,21 +85,80 @@ function jsonResponse<T>(data: ApiResponse<T>, status = 200): Response {
     });
 }
 
+// Downloadable file response (exports)
+function fileResponse(body: ReadableStream | string, contentType: string, filename: string): Response {
+    return new Response(body, {
+        headers: {
+            'Content-Type': contentType,
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            ...corsHeaders,
+        },
+    });
+}
+
 // Parse SavedSearchRow to SavedSearch
 function parseSearch(row: SavedSearchRow): SavedSearch {
     return {
         ...row,
         model_whitelist: JSON.parse(row.model_whitelist || '[]'),
         model_blacklist: JSON.parse(row.model_blacklist || '[]'),
+        ignored_brands: JSON.parse(row.ignored_brands || '[]'),
+        ignored_models: JSON.parse(row.ignored_models || '[]'),
+        rules: JSON.parse(row.rules || '{}'),
+        opportunity_weights: parseWeights(row.opportunity_weights),
     };
 }
 
+function forbidden(): Response {
+    return jsonResponse({ success: false, error: 'Forbidden' }, 403);
+}
+
+// Check the caller's role on a search. Returns an error response when not allowed
+// (searches the caller cannot see at all are reported as not found).
+async function requireSearchRole(id: string, user: User, required: SearchRole, env: Env): Promise<Response | null> {
+    const { getSearchRole, hasRole } = await import('./services/sharing');
+    const role = await getSearchRole(env, id, user);
+
+    if (!role) {
+        return jsonResponse({ success: false, error: 'Search not found' }, 404);
+    }
+    if (!hasRole(role, required)) {
+        return forbidden();
+    }
+    return null;
+}
+
+// Alerts a request may read: one search (access already checked) or every search the caller can access
+interface AlertScope {
+    sql: string;        // Condition on alerts.search_id
+    bindings: string[];
+}
+
+function searchScope(searchId: string): AlertScope {
+    return { sql: 'search_id = ?', bindings: [searchId] };
+}
+
+// Scope of /api/searches/:id/... reads; 'all' covers every search owned by or shared with the caller
+async function resolveAlertScope(searchId: string, user: User, env: Env): Promise<AlertScope | Response> {
+    if (searchId === 'all') {
+        const { ACCESSIBLE_SEARCHES_SQL } = await import('./services/sharing');
+        return { sql: `search_id IN ${ACCESSIBLE_SEARCHES_SQL}`, bindings: [user.id, user.id] };
+    }
+
+    return (await requireSearchRole(searchId, user, 'viewer', env)) ?? searchScope(searchId);
+}
+
 // Route handlers
-async function handleGetSearches(env: Env): Promise<Response> {
+// Searches owned by or shared with the caller, with the caller's role on each
+async function handleGetSearches(user: User, env: Env): Promise<Response> {
     try {
-        const { results } = await env.DB.prepare(
-            'SELECT * FROM saved_searches ORDER BY created_at DESC'
-        ).all<SavedSearchRow>();
+        const { results } = await env.DB.prepare(`
+            SELECT s.*, CASE WHEN s.user_id = ? THEN 'owner' ELSE m.role END as role
+            FROM saved_searches s
+            LEFT JOIN search_members m ON m.search_id = s.id AND m.user_id = ?
+            WHERE s.user_id = ? OR m.user_id IS NOT NULL
+            ORDER BY s.created_at DESC
+        `).bind(user.id, user.id, user.id).all<SavedSearchRow & { role: SearchRole }>();
 
         const searches = results.map(parseSearch);
         return jsonResponse({ success: true, data: searches });
@@ -60,7 +167,7 @@ async function handleGetSearches(env: Env): Promise<Response> {
     }
 }
 
-async function handleCreateSearch(request: Request, env: Env): Promise<Response> {
+async function handleCreateSearch(request: Request, user: User, env: Env): Promise<Response> {
     try {
         const body: CreateSearchRequest = await request.json();
 
@@ -72,9 +179,9 @@ async function handleCreateSearch(request: Request, env: Env): Promise<Response>
         const checkPeriod = body.check_period_minutes || 60;
 
         await env.DB.prepare(
-            `INSERT INTO saved_searches (id, name, human_url, check_period_minutes)
-       VALUES (?, ?, ?, ?)`
-        ).bind(id, body.name, body.human_url, checkPeriod).run();
+            `INSERT INTO saved_searches (id, user_id, name, human_url, check_period_minutes)
+       VALUES (?, ?, ?, ?, ?)`
+        ).bind(id, user.id, body.name, body.human_url, checkPeriod).run();
 
         const { results } = await env.DB.prepare(
             'SELECT * FROM saved_searches WHERE id = ?'
@@ -86,17 +193,19 @@ async function handleCreateSearch(request: Request, env: Env): Promise<Response>
     }
 }
 
-async function handleGetSearch(id: string, env: Env): Promise<Response> {
+async function handleGetSearch(id: string, user: User, env: Env): Promise<Response> {
     try {
-        const { results } = await env.DB.prepare(
-            'SELECT * FROM saved_searches WHERE id = ?'
-        ).bind(id).all<SavedSearchRow>();
+        const { getSearchRole } = await import('./services/sharing');
+        const role = await getSearchRole(env, id, user);
+        const search = role
+            ? await env.DB.prepare('SELECT * FROM saved_searches WHERE id = ?').bind(id).first<SavedSearchRow>()
+            : null;
 
-        if (results.length === 0) {
+        if (!search) {
             return jsonResponse({ success: false, error: 'Search not found' }, 404);
         }
 
-        return jsonResponse({ success: true, data: parseSearch(results[0]) });
+        return jsonResponse({ success: true, data: { ...parseSearch(search), role } });
     } catch (error) {
         return jsonResponse({ success: false, error: String(error) }, 500);
     }
@@ -124,6 +233,45 @@ async function handleUpdateSearch(id: string, request: Request, env: Env): Promi
             updates.push('model_blacklist = ?');
             values.push(JSON.stringify(body.model_blacklist));
         }
+        if (body.ignored_brands !== undefined) {
+            updates.push('ignored_brands = ?');
+            values.push(JSON.stringify(body.ignored_brands));
+        }
+        if (body.ignored_models !== undefined) {
+            updates.push('ignored_models = ?');
+            values.push(JSON.stringify(body.ignored_models));
+        }
+        if (body.min_group_size !== undefined) {
+            updates.push('min_group_size = ?');
+            values.push(body.min_group_size);
+        }
+        if (body.crawl_enabled !== undefined) {
+            // Toggling the deep crawl always starts a fresh cycle
+            updates.push('crawl_enabled = ?', 'last_sp_scanned = 0', 'crawl_anchor_id = NULL');
+            values.push(body.crawl_enabled ? 1 : 0);
+        }
+        if (body.enrich_enabled !== undefined) {
+            updates.push('enrich_enabled = ?');
+            values.push(body.enrich_enabled ? 1 : 0);
+        }
+        if (body.opportunity_weights !== undefined) {
+            const { validateWeights, parseWeights } = await import('./services/scoring');
+            const weightsError = validateWeights(body.opportunity_weights);
+            if (weightsError) {
+                return jsonResponse({ success: false, error: weightsError }, 400);
+            }
+            updates.push('opportunity_weights = ?');
+            values.push(JSON.stringify(parseWeights(JSON.stringify(body.opportunity_weights))));
+        }
+        if (body.rules !== undefined) {
+            const { validateRules } = await import('./services/rules');
+            const rulesError = validateRules(body.rules);
+            if (rulesError) {
+                return jsonResponse({ success: false, error: rulesError }, 400);
+            }
+            updates.push('rules = ?');
+            values.push(JSON.stringify(body.rules));
+        }
 
         if (updates.length === 0) {
             return jsonResponse({ success: false, error: 'No fields to update' }, 400);
@@ -136,15 +284,15 @@ async function handleUpdateSearch(id: string, request: Request, env: Env): Promi
             `UPDATE saved_searches SET ${updates.join(', ')} WHERE id = ?`
         ).bind(...values).run();
 
-        const { results } = await env.DB.prepare(
-            'SELECT * FROM saved_searches WHERE id = ?'
-        ).bind(id).all<SavedSearchRow>();
+        const search = await env.DB.prepare('SELECT * FROM saved_searches WHERE id = ?')
+            .bind(id)
+            .first<SavedSearchRow>();
 
-        if (results.length === 0) {
+        if (!search) {
             return jsonResponse({ success: false, error: 'Search not found' }, 404);
         }
 
-        return jsonResponse({ success: true, data: parseSearch(results[0]) });
+        return jsonResponse({ success: true, data: parseSearch(search) });
     } catch (error) {
         return jsonResponse({ success: false, error: String(error) }, 500);
     }
@@ -166,11 +314,11 @@ async function handleDeleteSearch(id: string, env: Env): Promise<Response> {
     }
 }
 
-async function handleGetAlerts(searchId: string, env: Env): Promise<Response> {
+async function handleGetAlerts(scope: AlertScope, env: Env): Promise<Response> {
     try {
         const { results } = await env.DB.prepare(
-            `SELECT * FROM alerts WHERE search_id = ? ORDER BY created_at DESC LIMIT 100`
-        ).bind(searchId).all<Alert>();
+            `SELECT * FROM alerts WHERE ${scope.sql} ORDER BY created_at DESC LIMIT 100`
+        ).bind(...scope.bindings).all<Alert>();
 
         return jsonResponse({ success: true, data: results });
     } catch (error) {
@@ -178,43 +326,65 @@ async function handleGetAlerts(searchId: string, env: Env): Promise<Response> {
     }
 }
 
-// Get model statistics for a search (or all searches if searchId is 'all')
-async function handleGetModels(searchId: string, env: Env): Promise<Response> {
-    try {
-        let modelStats;
+interface ModelStatsRow {
+    model: string;
+    count: number;                     // Ads seen by the scans (market), or alerts before the first snapshot
+    alert_count: number;               // Ads that passed the filters
+    min_price: number;
+    max_price: number;
+    median_price: number | null;       // Market median
+    thumbnail_url: string | null;
+    active_count: number;
+    removed_count: number;
+    avg_days_on_market: number | null; // Only over ads already removed (sold/delisted)
+    avg_age_days: number | null;       // Days listed so far, removed or not
+}
 
-        if (searchId === 'all') {
-            // Get model counts from ALL alerts
-            const { results } = await env.DB.prepare(`
-                SELECT 
-                    COALESCE(model, 'Desconhecido') as model,
-                    COUNT(*) as count,
-                    MIN(CAST(REPLACE(REPLACE(REPLACE(price, 'R$ ', ''), '.', ''), ',', '') AS INTEGER)) as min_price,
-                    MAX(CAST(REPLACE(REPLACE(REPLACE(price, 'R$ ', ''), '.', ''), ',', '') AS INTEGER)) as max_price,
-                    MAX(thumbnail_url) as thumbnail_url
-                FROM alerts 
-                GROUP BY model 
-                ORDER BY count DESC
-                LIMIT 50
-            `).all<{ model: string; count: number; min_price: number; max_price: number; thumbnail_url: string }>();
-            modelStats = results;
-        } else {
-            // Get model counts from specific search
-            const { results } = await env.DB.prepare(`
-                SELECT 
-                    COALESCE(model, 'Desconhecido') as model,
-                    COUNT(*) as count,
-                    MIN(CAST(REPLACE(REPLACE(REPLACE(price, 'R$ ', ''), '.', ''), ',', '') AS INTEGER)) as min_price,
-                    MAX(CAST(REPLACE(REPLACE(REPLACE(price, 'R$ ', ''), '.', ''), ',', '') AS INTEGER)) as max_price,
-                    MAX(thumbnail_url) as thumbnail_url
-                FROM alerts 
-                WHERE search_id = ?
-                GROUP BY model 
-                ORDER BY count DESC
-                LIMIT 50
-            `).bind(searchId).all<{ model: string; count: number; min_price: number; max_price: number; thumbnail_url: string }>();
-            modelStats = results;
-        }
+// Get model statistics for a search (or all accessible searches if searchId is 'all')
+async function handleGetModels(searchId: string, scope: AlertScope, env: Env): Promise<Response> {
+    try {
+        // Count each ad once, even when several searches matched it
+        const { scopedAdsSql } = await import('./services/ads');
+        const { results: alertModelStats } = await env.DB.prepare(`
+            SELECT 
+                COALESCE(model, 'Desconhecido') as model,
+                COUNT(*) as count,
+                COUNT(*) as alert_count,
+                NULL as median_price,
+                MIN(price_cents) / 100 as min_price,
+                MAX(price_cents) / 100 as max_price,
+                MAX(thumbnail_url) as thumbnail_url,
+                SUM(CASE WHEN removed_at IS NULL THEN 1 ELSE 0 END) as active_count,
+                SUM(CASE WHEN removed_at IS NOT NULL THEN 1 ELSE 0 END) as removed_count,
+                ROUND(AVG(CASE WHEN removed_at IS NOT NULL THEN julianday(removed_at) - julianday(first_seen_at) END), 1) as avg_days_on_market,
+                ROUND(AVG(julianday(COALESCE(removed_at, 'now')) - julianday(first_seen_at)), 1) as avg_age_days
+            FROM ads
+            WHERE list_id IN ${scopedAdsSql(scope.sql)}
+            GROUP BY model 
+            ORDER BY count DESC
+        `).bind(...scope.bindings).all<ModelStatsRow>();
+
+        // Volume and prices over the whole observed market; removal stats only exist for alerted ads
+        const { getMarketModelStats } = await import('./services/market');
+        const market = await getMarketModelStats(env, scope.sql, scope.bindings);
+        const alertStats = new Map(alertModelStats.map(m => [m.model, m]));
+
+        const modelStats: ModelStatsRow[] = market.length === 0
+            ? alertModelStats.slice(0, 50)
+            : market.slice(0, 50).map(m => {
+                const alerted = alertStats.get(m.model);
+                return {
+                    ...m,
+                    min_price: m.min_price ?? 0,
+                    max_price: m.max_price ?? 0,
+                    thumbnail_url: m.thumbnail_url || alerted?.thumbnail_url || null,
+                    alert_count: alerted?.count ?? 0,
+                    active_count: alerted?.active_count ?? 0,
+                    removed_count: alerted?.removed_count ?? 0,
+                    avg_days_on_market: alerted?.avg_days_on_market ?? null,
+                    avg_age_days: alerted?.avg_age_days ?? null,
+                };
+            });
 
         // Get whitelist/blacklist (only for specific search)
         let whitelist: string[] = [];
@@ -243,19 +413,7 @@ async function handleGetModels(searchId: string, env: Env): Promise<Response> {
     }
 }
 
-// Helper to parse price string to number
-function parsePrice(priceStr: string | null): number {
-    if (!priceStr) return 0;
-    // Remove "R$", spaces, and dots (thousands separator)
-    // Example: "R$ 10.000,00" -> "10000,00"
-    let clean = priceStr.replace(/[R$\s.]/g, '');
-    // Replace comma with dot (decimal separator) and parse
-    // "10000,00" -> "10000.00" -> 10000
-    clean = clean.replace(',', '.');
-    return parseFloat(clean) || 0;
-}
-
-// Helper to extract brand from model string (first word)
+// Helper to extract brand from model string (first word), for ads stored without a brand
 function extractBrand(model: string | null): string {
     if (!model) return 'Desconhecido';
     const parts = model.trim().split(/\s+/);
@@ -263,36 +421,44 @@ function extractBrand(model: string | null): string {
 }
 
 // Get top opportunities (ads below median price)
-async function handleGetOpportunities(searchId: string, params: URLSearchParams, env: Env): Promise<Response> {
+async function handleGetOpportunities(searchId: string, params: URLSearchParams, scope: AlertScope, env: Env): Promise<Response> {
     try {
         const limit = parseInt(params.get('limit') || '20', 10);
         const brand = params.get('brand');
         const model = params.get('model');
+        const newOnly = params.get('newOnly') === 'true';
+        const format = params.get('format') || 'json';
+
+        const { isExportFormat } = await import('./services/export');
+        if (format !== 'json' && !isExportFormat(format)) {
+            return jsonResponse({ success: false, error: 'format must be json, csv, jsonl or xlsx' }, 400);
+        }
+
+        const { scoreOpportunities, parseWeights, DEFAULT_WEIGHTS } = await import('./services/scoring');
 
-        // Get min_group_size
+        // Get min_group_size and weights
         let minGroupSize = parseInt(params.get('min_group_size') || '0', 10);
+        let weights = DEFAULT_WEIGHTS;
 
-        // If not provided in params (0), fallback to DB or default
+        if (searchId !== 'all') {
+            const search = await env.DB.prepare('SELECT min_group_size, opportunity_weights FROM saved_searches WHERE id = ?')
+                .bind(searchId)
+                .first<{ min_group_size: number; opportunity_weights: string }>();
+            weights = parseWeights(search?.opportunity_weights);
+
+            // If not provided in params (0), fallback to DB
+            if (minGroupSize === 0 && search?.min_group_size) {
+                minGroupSize = search.min_group_size;
+            }
+        }
         if (minGroupSize === 0) {
             minGroupSize = 3;
-            if (searchId !== 'all') {
-                const search = await env.DB.prepare('SELECT min_group_size FROM saved_searches WHERE id = ?')
-                    .bind(searchId)
-                    .first<{ min_group_size: number }>();
-                if (search?.min_group_size) {
-                    minGroupSize = search.min_group_size;
-                }
-            }
         }
 
-        // Get all alerts for this search
-        let query = `SELECT * FROM alerts WHERE search_id = ?`;
-        const bindings: (string | number)[] = [searchId === 'all' ? '' : searchId];
-
-        if (searchId === 'all') {
-            query = `SELECT * FROM alerts WHERE 1=1`;
-            bindings.length = 0;
-        }
+        // Get all ads in scope, one alert each
+        const { canonicalAlertsSql } = await import('./services/ads');
+        let query = `SELECT * FROM (${canonicalAlertsSql(scope.sql)}) WHERE 1 = 1`;
+        const bindings: (string | number)[] = [...scope.bindings];
 
         if (brand) {
             query += ` AND model LIKE ?`;
@@ -302,170 +468,75 @@ async function handleGetOpportunities(searchId: string, params: URLSearchParams,
             query += ` AND model LIKE ?`;
             bindings.push(`%${model}%`);
         }
+        if (newOnly) {
+            // Last 24 hours (ISO or SQLite timestamps)
+            query += ` AND datetime(created_at) >= datetime('now', '-24 hours')`;
+        }
 
         query += ` ORDER BY created_at DESC`;
 
-        const stmt = env.DB.prepare(query);
-        const { results: alerts } = bindings.length > 0
-            ? await stmt.bind(...bindings).all<Alert>()
-            : await stmt.all<Alert>();
-
-        // Calculate median prices AND mileage per model AND brand
-        const modelPrices = new Map<string, number[]>();
-        const modelMileages = new Map<string, number[]>();
-        const brandPrices = new Map<string, number[]>();
-        const brandMileages = new Map<string, number[]>();
+        const { results: alerts } = await env.DB.prepare(query).bind(...bindings).all<Alert>();
 
-        for (const alert of alerts) {
-            const mdl = alert.model || 'Desconhecido';
-            const brnd = (alert as any).brand || mdl.split(' ')[0] || 'Desconhecido';
-            const price = parsePrice(alert.price);
+        // Medians come from everything the scans saw, not only the ads that passed the filters
+        const { getMarketSamples } = await import('./services/market');
+        const market = await getMarketSamples(env, scope.sql, scope.bindings);
 
-            if (price > 0) {
-                if (!modelPrices.has(mdl)) modelPrices.set(mdl, []);
-                modelPrices.get(mdl)!.push(price);
-
-                if (!brandPrices.has(brnd)) brandPrices.set(brnd, []);
-                brandPrices.get(brnd)!.push(price);
-            }
+        // Reference table prices: a second signal, and the fallback for models under min_group_size
+        const { getReferencePrices } = await import('./services/reference-prices');
+        const references = await getReferencePrices(env, alerts.map(alert => alert.model));
 
-            if (alert.mileage && alert.mileage > 0) {
-                if (!modelMileages.has(mdl)) modelMileages.set(mdl, []);
-                modelMileages.get(mdl)!.push(alert.mileage);
+        const scored = scoreOpportunities(alerts, { weights, minGroupSize, market, references });
 
-                if (!brandMileages.has(brnd)) brandMileages.set(brnd, []);
-                brandMileages.get(brnd)!.push(alert.mileage);
-            }
+        // Exports hold every opportunity unless a limit is given
+        if (isExportFormat(format)) {
+            const { streamExport, OPPORTUNITY_EXPORT_COLUMNS, MAX_EXPORT_ROWS, EXPORT_CONTENT_TYPES } = await import('./services/export');
+            const rows = scored.slice(0, params.has('limit') ? limit : MAX_EXPORT_ROWS);
+            return fileResponse(streamExport(format, OPPORTUNITY_EXPORT_COLUMNS, [rows]), EXPORT_CONTENT_TYPES[format], `opportunities.${format}`);
         }
 
-        const modelPriceMedians = new Map<string, number>();
-        const modelKmMedians = new Map<string, number>();
-        const brandPriceMedians = new Map<string, number>();
-        const brandKmMedians = new Map<string, number>();
+        return jsonResponse({ success: true, data: scored.slice(0, limit) });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
 
-        // Helper for median
-        const getMedian = (arr: number[]) => {
-            arr.sort((a, b) => a - b);
-            const mid = Math.floor(arr.length / 2);
-            return arr.length % 2 ? arr[mid] : (arr[mid - 1] + arr[mid]) / 2;
-        };
+// Time series of a model: median price/mileage and new/removed ads per day, week or month
+async function handleGetTrends(params: URLSearchParams, scope: AlertScope, env: Env): Promise<Response> {
+    try {
+        const { getModelTrend, isTrendBucket } = await import('./services/trends');
 
-        for (const [mdl, prices] of modelPrices) {
-            if (prices.length >= minGroupSize) {
-                modelPriceMedians.set(mdl, getMedian(prices));
-            }
-        }
-        for (const [mdl, kms] of modelMileages) {
-            if (kms.length >= minGroupSize) {
-                modelKmMedians.set(mdl, getMedian(kms));
-            }
+        const model = params.get('model');
+        if (!model) {
+            return jsonResponse({ success: false, error: 'model is required' }, 400);
         }
-        // Brand medians (use lower threshold for fallback)
-        for (const [brnd, prices] of brandPrices) {
-            if (prices.length >= minGroupSize) {
-                brandPriceMedians.set(brnd, getMedian(prices));
-            }
+        const bucket = params.get('bucket') || 'week';
+        if (!isTrendBucket(bucket)) {
+            return jsonResponse({ success: false, error: 'bucket must be day, week or month' }, 400);
         }
-        for (const [brnd, kms] of brandMileages) {
-            if (kms.length >= minGroupSize) {
-                brandKmMedians.set(brnd, getMedian(kms));
-            }
+        const since = params.get('since') ? Date.parse(params.get('since')!) : undefined;
+        if (since !== undefined && Number.isNaN(since)) {
+            return jsonResponse({ success: false, error: 'since must be a date (YYYY-MM-DD)' }, 400);
         }
 
-        // Score opportunities
-        const opportunities = alerts
-            .map(alert => {
-                const mdl = alert.model || 'Desconhecido';
-                const brnd = (alert as any).brand || mdl.split(' ')[0] || 'Desconhecido';
-                const price = parsePrice(alert.price);
-
-                // Use model median if available, otherwise fallback to brand median
-                const medianPrice = modelPriceMedians.get(mdl) || brandPriceMedians.get(brnd);
-                const medianKm = modelKmMedians.get(mdl) || brandKmMedians.get(brnd);
-                const km = alert.mileage || 0;
-
-                if (!medianPrice || price <= 0) return null;
-
-                const priceRatio = price / medianPrice;
-                const kmRatio = (medianKm && km > 0) ? km / medianKm : 1;
-
-                // Rules: 
-                // 1. Price <= 0.92 median
-                // 2. Price <= 0.95 median AND Km <= 0.90 median
-
-                let isOpportunity = false;
-                let explanations: string[] = [];
-                let badges: string[] = [];
-
-                if (priceRatio <= 0.92) {
-                    isOpportunity = true;
-                    const pctBelow = Math.round((1 - priceRatio) * 100);
-                    explanations.push(`${pctBelow}% abaixo do preço médio`);
-                    badges.push('💰 Preço Bom');
-                } else if (priceRatio <= 0.95 && medianKm && km > 0 && kmRatio <= 0.90) {
-                    isOpportunity = true;
-                    explanations.push('Preço e KM abaixo da média');
-                    badges.push('💎 Achado');
-                }
-
-                if (!isOpportunity) return null;
-
-                // Add KM explanation if good
-                if (medianKm && km > 0 && kmRatio <= 0.85) {
-                    badges.push('📉 Baixo KM');
-                }
-
-                // Add Recency badge
-                const created = new Date(alert.created_at);
-                const now = new Date();
-                const hoursAgo = (now.getTime() - created.getTime()) / (1000 * 60 * 60);
-                if (hoursAgo < 24) {
-                    badges.push('🆕 Novo');
-                }
-
-                // Calculate score (higher is better)
-                // Score = price discount % + (km discount % / 2)
-                let score = (1 - priceRatio) * 100;
-                if (medianKm && km > 0) {
-                    score += ((1 - kmRatio) * 100) / 2;
-                }
-
-                return {
-                    ...alert,
-                    brand: brnd,
-                    median: medianPrice,
-                    pctBelowMedian: Math.round((1 - priceRatio) * 100),
-                    score: score,
-                    explanation: explanations.join('. '),
-                    badges: badges
-                };
-            })
-            .filter(Boolean)
-            .sort((a, b) => (b?.score || 0) - (a?.score || 0))
-            .slice(0, limit);
-
-        return jsonResponse({ success: true, data: opportunities });
+        const trend = await getModelTrend(env, scope.sql, scope.bindings, { model, bucket, since });
+        return jsonResponse({ success: true, data: trend });
     } catch (error) {
         return jsonResponse({ success: false, error: String(error) }, 500);
     }
 }
 
 // Get brand distribution
-async function handleGetBrands(searchId: string, env: Env): Promise<Response> {
+async function handleGetBrands(scope: AlertScope, env: Env): Promise<Response> {
     try {
-        const query = searchId === 'all'
-            ? `SELECT model FROM alerts`
-            : `SELECT model FROM alerts WHERE search_id = ?`;
-
-        const stmt = env.DB.prepare(query);
-        const { results } = searchId === 'all'
-            ? await stmt.all<{ model: string }>()
-            : await stmt.bind(searchId).all<{ model: string }>();
+        const { scopedAdsSql } = await import('./services/ads');
+        const { results } = await env.DB.prepare(
+            `SELECT brand, model FROM ads WHERE list_id IN ${scopedAdsSql(scope.sql)}`
+        ).bind(...scope.bindings).all<{ brand: string | null; model: string }>();
 
-        // Aggregate by brand (first word of model)
+        // Aggregate by (canonical) brand
         const brandCounts = new Map<string, number>();
         for (const row of results) {
-            const brand = extractBrand(row.model);
+            const brand = row.brand || extractBrand(row.model);
             brandCounts.set(brand, (brandCounts.get(brand) || 0) + 1);
         }
 
@@ -484,74 +555,105 @@ async function handleGetBrands(searchId: string, env: Env): Promise<Response> {
     }
 }
 
-// Get filtered listings with sorting
-async function handleGetListings(searchId: string, params: URLSearchParams, env: Env): Promise<Response> {
+// Filters and sort of /listings (brand, model, newOnly, sort, order), shared by the page and the export
+function listingsQuery(params: URLSearchParams, scope: AlertScope): { where: string; bindings: (string | number)[]; orderBy: string } {
+    const brand = params.get('brand');
+    const model = params.get('model');
+    const newOnly = params.get('newOnly') === 'true';
+    const sortBy = params.get('sort') || 'created_at';
+    const sortOrder = params.get('order') || 'desc';
+
+    let where = scope.sql;
+    const bindings: (string | number)[] = [...scope.bindings];
+
+    if (brand) {
+        where += ` AND model LIKE ?`;
+        bindings.push(`${brand}%`);
+    }
+    if (model) {
+        where += ` AND model LIKE ?`;
+        bindings.push(`%${model}%`);
+    }
+    if (newOnly) {
+        // Last 24 hours (ISO or SQLite timestamps)
+        where += ` AND datetime(created_at) >= datetime('now', '-24 hours')`;
+    }
+
+    // Validate sort column (price sorts on the numeric column, not the display string)
+    const sortColumns: Record<string, string> = {
+        created_at: 'created_at',
+        price: 'price_cents',
+        model: 'model',
+        municipality: 'municipality',
+        year: 'year',
+        mileage: 'mileage',
+    };
+    const safeSort = sortColumns[sortBy] || 'created_at';
+    const safeOrder = sortOrder.toLowerCase() === 'asc' ? 'ASC' : 'DESC';
+
+    return { where, bindings, orderBy: `${safeSort} IS NULL, ${safeSort} ${safeOrder}` };
+}
+
+// Listings as the API returns them: brand filled in and compared to the reference price table
+async function presentListings(alerts: Alert[], env: Env): Promise<ListingView[]> {
+    const { getReferencePrices, compareToReference } = await import('./services/reference-prices');
+    const references = await getReferencePrices(env, alerts.map(a => a.model));
+
+    return alerts.map(a => ({
+        ...a,
+        brand: a.brand || extractBrand(a.model),
+        ...compareToReference(a, references),
+    }));
+}
+
+// Listings read per query when exporting
+const EXPORT_PAGE_SIZE = 500;
+
+// Get filtered listings with sorting (?format=csv|jsonl|xlsx streams them as a file)
+async function handleGetListings(params: URLSearchParams, scope: AlertScope, env: Env): Promise<Response> {
     try {
         const limit = parseInt(params.get('limit') || '50', 10);
         const offset = parseInt(params.get('offset') || '0', 10);
-        const brand = params.get('brand');
-        const model = params.get('model');
-        const newOnly = params.get('newOnly') === 'true';
-        const sortBy = params.get('sort') || 'created_at';
-        const sortOrder = params.get('order') || 'desc';
-
-        // Build query
-        let query = searchId === 'all'
-            ? `SELECT * FROM alerts WHERE 1=1`
-            : `SELECT * FROM alerts WHERE search_id = ?`;
-        const bindings: (string | number)[] = searchId === 'all' ? [] : [searchId];
-
-        if (brand) {
-            query += ` AND model LIKE ?`;
-            bindings.push(`${brand}%`);
-        }
-        if (model) {
-            query += ` AND model LIKE ?`;
-            bindings.push(`%${model}%`);
-        }
-        if (newOnly) {
-            // Filter by last 24 hours
-            query += ` AND created_at >= datetime('now', '-24 hours')`;
-        }
+        const { where, bindings, orderBy } = listingsQuery(params, scope);
 
-        // Validate sort column
-        const validSorts = ['created_at', 'price', 'model', 'municipality'];
-        const safeSort = validSorts.includes(sortBy) ? sortBy : 'created_at';
-        const safeOrder = sortOrder.toLowerCase() === 'asc' ? 'ASC' : 'DESC';
+        const format = params.get('format') || 'json';
+        if (format !== 'json') {
+            const { isExportFormat, streamExport, LISTING_EXPORT_COLUMNS, MAX_EXPORT_ROWS, EXPORT_CONTENT_TYPES } = await import('./services/export');
+            if (!isExportFormat(format)) {
+                return jsonResponse({ success: false, error: 'format must be json, csv, jsonl or xlsx' }, 400);
+            }
 
-        query += ` ORDER BY ${safeSort} ${safeOrder} LIMIT ? OFFSET ?`;
-        bindings.push(limit, offset);
+            // Exports hold every listing unless a limit is given
+            const maxRows = params.has('limit') ? Math.min(limit, MAX_EXPORT_ROWS) : MAX_EXPORT_ROWS;
 
-        const stmt = env.DB.prepare(query);
-        const { results } = await stmt.bind(...bindings).all<Alert>();
+            async function* pages() {
+                for (let start = 0; start < maxRows; start += EXPORT_PAGE_SIZE) {
+                    const pageSize = Math.min(EXPORT_PAGE_SIZE, maxRows - start);
+                    const { results } = await env.DB.prepare(
+                        `SELECT * FROM alerts WHERE ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`
+                    ).bind(...bindings, pageSize, start).all<Alert>();
 
-        // Get total count
-        let countQuery = searchId === 'all'
-            ? `SELECT COUNT(*) as total FROM alerts WHERE 1=1`
-            : `SELECT COUNT(*) as total FROM alerts WHERE search_id = ?`;
-        const countBindings: string[] = searchId === 'all' ? [] : [searchId];
+                    yield await presentListings(results, env);
+                    if (results.length < pageSize) break;
+                }
+            }
 
-        if (brand) {
-            countQuery += ` AND model LIKE ?`;
-            countBindings.push(`${brand}%`);
-        }
-        if (model) {
-            countQuery += ` AND model LIKE ?`;
-            countBindings.push(`%${model}%`);
-        }
-        if (newOnly) {
-            countQuery += ` AND created_at >= datetime('now', '-24 hours')`;
+            return fileResponse(streamExport(format, LISTING_EXPORT_COLUMNS, pages()), EXPORT_CONTENT_TYPES[format], `listings.${format}`);
         }
 
-        const countStmt = env.DB.prepare(countQuery);
-        const countResult = countBindings.length > 0
-            ? await countStmt.bind(...countBindings).first<{ total: number }>()
-            : await countStmt.first<{ total: number }>();
+        const { results } = await env.DB.prepare(
+            `SELECT * FROM alerts WHERE ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`
+        ).bind(...bindings, limit, offset).all<Alert>();
+
+        // Get total count
+        const countResult = await env.DB.prepare(`SELECT COUNT(*) as total FROM alerts WHERE ${where}`)
+            .bind(...bindings)
+            .first<{ total: number }>();
 
         return jsonResponse({
             success: true,
             data: {
-                listings: results.map(a => ({ ...a, brand: extractBrand(a.model) })),
+                listings: await presentListings(results, env),
                 total: countResult?.total || 0,
                 limit,
                 offset
@@ -562,194 +664,1110 @@ async function handleGetListings(searchId: string, params: URLSearchParams, env:
     }
 }
 
-async function handleUpdateAlert(id: string, request: Request, env: Env): Promise<Response> {
+// Get a single alert, with the detail page fields (photos/optionals as arrays) when it was enriched
+async function handleGetAlert(id: string, user: User, env: Env): Promise<Response> {
     try {
-        const body: { status: Alert['status'] } = await request.json();
+        const alert = await env.DB.prepare('SELECT * FROM alerts WHERE id = ?').bind(id).first<Alert>();
 
-        if (!['new', 'seen', 'opened', 'muted', 'favorite'].includes(body.status)) {
-            return jsonResponse({ success: false, error: 'Invalid status' }, 400);
+        // Reading needs viewer access to the alert's search
+        const { getSearchRole } = await import('./services/sharing');
+        if (!alert || !(await getSearchRole(env, alert.search_id, user))) {
+            return jsonResponse({ success: false, error: 'Alert not found' }, 404);
         }
 
-        await env.DB.prepare(
-            'UPDATE alerts SET status = ? WHERE id = ?'
-        ).bind(body.status, id).run();
-
-        return jsonResponse({ success: true, data: { id, status: body.status } });
+        return jsonResponse({
+            success: true,
+            data: {
+                ...alert,
+                photos: JSON.parse(alert.photos || '[]') as string[],
+                optionals: JSON.parse(alert.optionals || '[]') as string[],
+                phone_verified: alert.phone_verified === null ? null : alert.phone_verified === 1,
+            }
+        });
     } catch (error) {
         return jsonResponse({ success: false, error: String(error) }, 500);
     }
 }
 
-// Main request handler
-async function handleRequest(request: Request, env: Env): Promise<Response> {
-    const url = new URL(request.url);
-    const path = url.pathname;
-    const method = request.method;
-
-    // Handle CORS preflight
-    if (method === 'OPTIONS') {
-        return new Response(null, { headers: corsHeaders });
-    }
-
-    // Authentication
-    const { authenticate } = await import('./middleware/auth');
-    const authResponse = authenticate(request, env);
-    if (authResponse) return authResponse;
+async function handleUpdateAlert(id: string, request: Request, user: User, env: Env): Promise<Response> {
+    try {
+        const { ALERT_STATUSES, updateAlertStatus } = await import('./services/diff-engine');
+        const body: { status: Alert['status'] } = await request.json();
 
-    // API Routes
-    if (path === '/api/searches') {
-        if (method === 'GET') return handleGetSearches(env);
-        if (method === 'POST') return handleCreateSearch(request, env);
-    }
+        if (!ALERT_STATUSES.includes(body.status)) {
+            return jsonResponse({ success: false, error: 'Invalid status' }, 400);
+        }
 
-    // Match /api/searches/:id
-    const searchMatch = path.match(/^\/api\/searches\/([^/]+)$/);
-    if (searchMatch) {
-        const id = searchMatch[1];
-        if (method === 'GET') return handleGetSearch(id, env);
-        if (method === 'PUT') return handleUpdateSearch(id, request, env);
-        if (method === 'DELETE') return handleDeleteSearch(id, env);
-    }
+        // Changing a status needs editor access to the alert's search
+        const { getSearchRole, hasRole } = await import('./services/sharing');
+        const alert = await env.DB.prepare('SELECT search_id FROM alerts WHERE id = ?')
+            .bind(id)
+            .first<{ search_id: string }>();
+        if (!alert || !hasRole(await getSearchRole(env, alert.search_id, user), 'editor')) {
+            return jsonResponse({ success: false, error: 'Alert not found' }, 404);
+        }
 
-    // Match /api/searches/:id/alerts
-    const alertsMatch = path.match(/^\/api\/searches\/([^/]+)\/alerts$/);
-    if (alertsMatch) {
-        const id = alertsMatch[1];
-        if (method === 'GET') return handleGetAlerts(id, env);
-    }
+        await updateAlertStatus(env, id, body.status);
 
-    // Match /api/searches/:id/models (get model statistics)
-    const modelsMatch = path.match(/^\/api\/searches\/([^/]+)\/models$/);
-    if (modelsMatch) {
-        const id = modelsMatch[1];
-        if (method === 'GET') return handleGetModels(id, env);
+        return jsonResponse({ success: true, data: { id, status: body.status } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
     }
+}
 
-    // Match /api/searches/:id/opportunities (get top opportunities)
-    const opportunitiesMatch = path.match(/^\/api\/searches\/([^/]+)\/opportunities$/);
-    if (opportunitiesMatch) {
-        const id = opportunitiesMatch[1];
-        if (method === 'GET') return handleGetOpportunities(id, url.searchParams, env);
-    }
+// Get the price history of a single ad (by OLX list_id)
+async function handleGetPriceHistory(listId: string, user: User, env: Env): Promise<Response> {
+    try {
+        const { getPriceHistory } = await import('./services/price-history');
+        const history = await getPriceHistory(env, listId, user.id);
 
-    // Match /api/searches/:id/brands (get brand distribution)
-    const brandsMatch = path.match(/^\/api\/searches\/([^/]+)\/brands$/);
-    if (brandsMatch) {
-        const id = brandsMatch[1];
-        if (method === 'GET') return handleGetBrands(id, env);
-    }
+        if (history.length === 0) {
+            return jsonResponse({ success: false, error: 'No price history for this listing' }, 404);
+        }
 
-    // Match /api/searches/:id/listings (get filtered listings)
-    const listingsMatch = path.match(/^\/api\/searches\/([^/]+)\/listings$/);
-    if (listingsMatch) {
-        const id = listingsMatch[1];
-        if (method === 'GET') return handleGetListings(id, url.searchParams, env);
-    }
+        const first = history[0].price_value;
+        const current = history[history.length - 1].price_value;
 
-    // Match /api/alerts/:id (update alert status)
-    const alertMatch = path.match(/^\/api\/alerts\/([^/]+)$/);
-    if (alertMatch) {
-        const id = alertMatch[1];
-        if (method === 'PUT') return handleUpdateAlert(id, request, env);
+        return jsonResponse({
+            success: true,
+            data: {
+                list_id: listId,
+                history,
+                first_price: first,
+                current_price: current,
+                change_pct: first > 0 ? Math.round(((current - first) / first) * 1000) / 10 : 0,
+            }
+        });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
     }
+}
 
-    // Match /api/scan (scan all searches)
-    if (path === '/api/scan' && method === 'POST') {
-        return handleScanAll(env);
-    }
+// Whether the caller may manage (editor or above) the search a webhook or Telegram chat belongs to
+async function canManageChannel(table: 'webhooks' | 'telegram_chats', id: string, user: User, env: Env): Promise<boolean> {
+    const { getSearchRole, hasRole } = await import('./services/sharing');
 
-    // Match /api/scan/:id (scan specific search)
-    const scanMatch = path.match(/^\/api\/scan\/([^/]+)$/);
-    if (scanMatch && method === 'POST') {
-        const id = scanMatch[1];
-        return handleScanOne(id, env);
-    }
+    const channel = await env.DB.prepare(`SELECT search_id FROM ${table} WHERE id = ?`)
+        .bind(id)
+        .first<{ search_id: string }>();
 
-    // Health check
-    if (path === '/health') {
-        return jsonResponse({ success: true, data: { status: 'ok', timestamp: new Date().toISOString() } });
-    }
+    return channel !== null && hasRole(await getSearchRole(env, channel.search_id, user), 'editor');
+}
 
-    // 404 for unmatched routes
-    // Match /api/migrate-models (fix existing data)
-    if (path === '/api/migrate-models' && method === 'POST') {
-        return handleMigrateModels(env);
-    }
+// List webhooks of a search (secrets are never returned after creation)
+async function handleGetWebhooks(searchId: string, env: Env): Promise<Response> {
+    try {
+        const { results } = await env.DB.prepare(
+            'SELECT id, search_id, url, active, created_at FROM webhooks WHERE search_id = ? ORDER BY created_at DESC'
+        ).bind(searchId).all<Omit<Webhook, 'secret'>>();
 
-    // Debug: Get raw OLX ad properties
-    if (path === '/api/debug/olx-sample' && method === 'GET') {
-        return handleDebugOlxSample(env);
+        return jsonResponse({ success: true, data: results });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
     }
-
-    return jsonResponse({ success: false, error: 'Not Found' }, 404);
 }
 
-async function handleDebugOlxSample(env: Env): Promise<Response> {
+async function handleCreateWebhook(searchId: string, request: Request, env: Env): Promise<Response> {
     try {
-        const { fetchPage, getBuildId, buildDataUrl } = await import('./services/olx-fetcher');
+        const { validateWebhookUrl, generateSecret } = await import('./services/webhooks');
+        const body: CreateWebhookRequest = await request.json();
 
-        // Get a saved search to use its URL
-        const { results } = await env.DB.prepare('SELECT human_url FROM saved_searches LIMIT 1').all<{ human_url: string }>();
-        if (results.length === 0) {
-            return jsonResponse({ success: false, error: 'No saved searches' }, 404);
+        const urlError = validateWebhookUrl(body.url);
+        if (urlError) {
+            return jsonResponse({ success: false, error: urlError }, 400);
         }
 
-        const humanUrl = results[0].human_url;
-        const buildId = await getBuildId();
-        const dataUrl = buildDataUrl(humanUrl, buildId, 1);
-        const { ads } = await fetchPage(dataUrl);
+        const id = generateId();
+        const secret = generateSecret();
+        await env.DB.prepare(
+            'INSERT INTO webhooks (id, search_id, url, secret) VALUES (?, ?, ?, ?)'
+        ).bind(id, searchId, body.url, secret).run();
 
-        // Return first 3 ads with all their properties
-        const sample = ads.slice(0, 3).map(ad => ({
-            listId: ad.listId,
-            subject: ad.subject,
-            price: ad.price,
-            properties: ad.properties,
-            // Include any other fields that might exist
-            raw: ad
-        }));
+        const webhook = await env.DB.prepare('SELECT * FROM webhooks WHERE id = ?')
+            .bind(id)
+            .first<Webhook>();
 
-        return jsonResponse({ success: true, data: { sample, total: ads.length } });
+        return jsonResponse({ success: true, data: webhook }, 201);
     } catch (error) {
         return jsonResponse({ success: false, error: String(error) }, 500);
     }
 }
 
-async function handleMigrateModels(env: Env): Promise<Response> {
+async function handleDeleteWebhook(id: string, user: User, env: Env): Promise<Response> {
     try {
-        const { extractModelFromSubject } = await import('./services/olx-fetcher');
+        if (!await canManageChannel('webhooks', id, user, env)) {
+            return jsonResponse({ success: false, error: 'Webhook not found' }, 404);
+        }
 
-        // Fetch all alerts
-        const { results: alerts } = await env.DB.prepare('SELECT id, subject, model FROM alerts').all<Alert>();
+        await env.DB.prepare('DELETE FROM webhooks WHERE id = ?').bind(id).run();
 
-        let updated = 0;
-        const stmt = env.DB.prepare('UPDATE alerts SET model = ? WHERE id = ?');
+        return jsonResponse({ success: true, data: { deleted: id } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
 
-        // Process in batches if possible, but simplest is sequential here for safety
-        for (const alert of alerts) {
-            if (alert.subject) {
-                const newModel = extractModelFromSubject(alert.subject);
-                if (newModel && newModel !== alert.model) {
-                    await stmt.bind(newModel, alert.id).run();
-                    updated++;
-                }
-            }
+async function handleGetWebhookDeliveries(id: string, user: User, env: Env): Promise<Response> {
+    try {
+        if (!await canManageChannel('webhooks', id, user, env)) {
+            return jsonResponse({ success: false, error: 'Webhook not found' }, 404);
         }
 
-        return jsonResponse({ success: true, data: { updated, total: alerts.length } });
+        const { results } = await env.DB.prepare(
+            'SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC, id DESC LIMIT 100'
+        ).bind(id).all<WebhookDelivery>();
+
+        return jsonResponse({ success: true, data: results });
     } catch (error) {
         return jsonResponse({ success: false, error: String(error) }, 500);
     }
 }
 
-// Scan all searches
-async function handleScanAll(env: Env): Promise<Response> {
+// Send a signed test payload (no alerts) to check the receiver
+async function handleTestWebhook(id: string, user: User, env: Env): Promise<Response> {
     try {
-        const { scanSearch } = await import('./services/diff-engine');
+        const { sendWebhook } = await import('./services/webhooks');
 
+        if (!await canManageChannel('webhooks', id, user, env)) {
+            return jsonResponse({ success: false, error: 'Webhook not found' }, 404);
+        }
+
+        const webhook = (await env.DB.prepare('SELECT * FROM webhooks WHERE id = ?')
+            .bind(id)
+            .first<Webhook>())!;
+        const search = (await env.DB.prepare('SELECT id, name FROM saved_searches WHERE id = ?')
+            .bind(webhook.search_id)
+            .first<{ id: string; name: string }>())!;
+
+        const delivery = await sendWebhook(env, webhook, {
+            event: 'webhook.test',
+            search: { id: search.id, name: search.name },
+            alerts: [],
+            sent_at: new Date().toISOString(),
+        });
+
+        return jsonResponse({ success: delivery.status === 'delivered', data: delivery });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleGetTelegramChats(searchId: string, env: Env): Promise<Response> {
+    try {
+        const { results } = await env.DB.prepare(
+            'SELECT * FROM telegram_chats WHERE search_id = ? ORDER BY created_at DESC'
+        ).bind(searchId).all<TelegramChat>();
+
+        return jsonResponse({ success: true, data: results });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleCreateTelegramChat(searchId: string, request: Request, env: Env): Promise<Response> {
+    try {
+        const body: { chat_id: string | number } = await request.json();
+
+        if (body.chat_id === undefined || !/^-?\d+$/.test(String(body.chat_id))) {
+            return jsonResponse({ success: false, error: 'chat_id must be a numeric Telegram chat id' }, 400);
+        }
+
+        const id = generateId();
+        await env.DB.prepare(
+            'INSERT OR IGNORE INTO telegram_chats (id, search_id, chat_id) VALUES (?, ?, ?)'
+        ).bind(id, searchId, String(body.chat_id)).run();
+
+        const chat = await env.DB.prepare('SELECT * FROM telegram_chats WHERE search_id = ? AND chat_id = ?')
+            .bind(searchId, String(body.chat_id))
+            .first<TelegramChat>();
+
+        return jsonResponse({ success: true, data: chat }, 201);
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleDeleteTelegramChat(id: string, user: User, env: Env): Promise<Response> {
+    try {
+        if (!await canManageChannel('telegram_chats', id, user, env)) {
+            return jsonResponse({ success: false, error: 'Chat not found' }, 404);
+        }
+
+        await env.DB.prepare('DELETE FROM telegram_chats WHERE id = ?').bind(id).run();
+
+        return jsonResponse({ success: true, data: { deleted: id } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Register this worker as the bot's webhook
+async function handleTelegramSetup(url: URL, env: Env): Promise<Response> {
+    try {
+        const { isTelegramEnabled, callTelegram } = await import('./services/telegram');
+
+        if (!isTelegramEnabled(env) || !env.TELEGRAM_WEBHOOK_SECRET) {
+            return jsonResponse({ success: false, error: 'TELEGRAM_BOT_TOKEN and TELEGRAM_WEBHOOK_SECRET must be set' }, 400);
+        }
+
+        const webhookUrl = `${url.origin}/telegram/webhook`;
+        await callTelegram(env, 'setWebhook', {
+            url: webhookUrl,
+            secret_token: env.TELEGRAM_WEBHOOK_SECRET,
+            allowed_updates: ['message', 'callback_query'],
+        });
+
+        return jsonResponse({ success: true, data: { webhook_url: webhookUrl } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Updates pushed by Telegram (authenticated by the secret_token set in setWebhook)
+async function handleTelegramWebhook(request: Request, env: Env): Promise<Response> {
+    try {
+        const secret = request.headers.get('X-Telegram-Bot-Api-Secret-Token');
+        if (!env.TELEGRAM_WEBHOOK_SECRET || secret !== env.TELEGRAM_WEBHOOK_SECRET) {
+            return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+        }
+
+        const { handleTelegramUpdate } = await import('./services/telegram');
+        await handleTelegramUpdate(env, await request.json());
+
+        return jsonResponse({ success: true });
+    } catch (error) {
+        // Telegram retries non-2xx responses forever; log and acknowledge
+        console.error('Telegram update failed:', error);
+        return jsonResponse({ success: false, error: String(error) });
+    }
+}
+
+// Build the digest of the last day/week, as JSON, HTML or plain text
+async function handleGetDigest(params: URLSearchParams, user: User, env: Env): Promise<Response> {
+    try {
+        const { buildDigest, isDigestPeriod, renderDigestHtml, renderDigestText } = await import('./services/digest');
+
+        const period = params.get('period') || 'day';
+        if (!isDigestPeriod(period)) {
+            return jsonResponse({ success: false, error: 'period must be day or week' }, 400);
+        }
+
+        const digest = await buildDigest(env, period, { user });
+        const format = params.get('format') || 'json';
+
+        if (format === 'html') {
+            return new Response(renderDigestHtml(digest), {
+                headers: { 'Content-Type': 'text/html; charset=utf-8', ...corsHeaders },
+            });
+        }
+        if (format === 'text') {
+            return new Response(renderDigestText(digest), {
+                headers: { 'Content-Type': 'text/plain; charset=utf-8', ...corsHeaders },
+            });
+        }
+
+        return jsonResponse({ success: true, data: digest });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Build and deliver the caller's digest now (same as the digest cron)
+async function handleSendDigest(params: URLSearchParams, user: User, env: Env): Promise<Response> {
+    try {
+        const { sendDigest, isDigestPeriod } = await import('./services/digest');
+
+        const period = params.get('period') || 'day';
+        if (!isDigestPeriod(period)) {
+            return jsonResponse({ success: false, error: 'period must be day or week' }, 400);
+        }
+
+        const result = await sendDigest(env, period, user);
+        return jsonResponse({ success: true, data: result });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Backup bundle of the caller's searches (config, alert statuses, seen IDs)
+async function handleExportBackup(user: User, env: Env): Promise<Response> {
+    try {
+        const { buildBackup } = await import('./services/backup');
+        const bundle = await buildBackup(env, user);
+        const date = bundle.exported_at.slice(0, 10);
+        return fileResponse(JSON.stringify(bundle, null, 2), 'application/json', `olx-car-finder-backup-${date}.json`);
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Restore a backup bundle into the caller's searches (?mode=merge|replace)
+async function handleImportBackup(request: Request, params: URLSearchParams, user: User, env: Env): Promise<Response> {
+    try {
+        const { importBackup, validateBackup } = await import('./services/backup');
+
+        const mode = params.get('mode') || 'merge';
+        if (mode !== 'merge' && mode !== 'replace') {
+            return jsonResponse({ success: false, error: 'mode must be merge or replace' }, 400);
+        }
+
+        const bundle = await request.json<BackupBundle>();
+        const bundleError = validateBackup(bundle);
+        if (bundleError) {
+            return jsonResponse({ success: false, error: bundleError }, 400);
+        }
+
+        const result = await importBackup(env, bundle, user, mode);
+        return jsonResponse({ success: true, data: result });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleGetMembers(searchId: string, env: Env): Promise<Response> {
+    try {
+        const { listMembers } = await import('./services/sharing');
+        const members = await listMembers(env, searchId);
+        return jsonResponse({ success: true, data: members });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Add a member to a search or change their role (editor/viewer)
+async function handleSetMember(searchId: string, userId: string, request: Request, env: Env): Promise<Response> {
+    try {
+        const { MEMBER_ROLES, setMember } = await import('./services/sharing');
+        const body: { role: SearchMember['role'] } = await request.json();
+
+        if (!MEMBER_ROLES.includes(body.role)) {
+            return jsonResponse({ success: false, error: `role must be one of: ${MEMBER_ROLES.join(', ')}` }, 400);
+        }
+
+        const member = await env.DB.prepare('SELECT id FROM users WHERE id = ?').bind(userId).first<{ id: string }>();
+        if (!member) {
+            return jsonResponse({ success: false, error: 'User not found' }, 404);
+        }
+
+        const search = await env.DB.prepare('SELECT user_id FROM saved_searches WHERE id = ?')
+            .bind(searchId)
+            .first<{ user_id: string }>();
+        if (search?.user_id === userId) {
+            return jsonResponse({ success: false, error: 'The owner cannot be added as a member' }, 400);
+        }
+
+        await setMember(env, searchId, userId, body.role);
+        return jsonResponse({ success: true, data: { search_id: searchId, user_id: userId, role: body.role } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleRemoveMember(searchId: string, userId: string, env: Env): Promise<Response> {
+    try {
+        const { removeMember } = await import('./services/sharing');
+
+        if (!await removeMember(env, searchId, userId)) {
+            return jsonResponse({ success: false, error: 'Member not found' }, 404);
+        }
+
+        return jsonResponse({ success: true, data: { removed: userId } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleGetShares(searchId: string, env: Env): Promise<Response> {
+    try {
+        const { listShares } = await import('./services/sharing');
+        const shares = await listShares(env, searchId);
+        return jsonResponse({ success: true, data: shares });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Create a read-only share link (the signed token is only returned here)
+async function handleCreateShare(searchId: string, request: Request, url: URL, user: User, env: Env): Promise<Response> {
+    try {
+        const { createShare, DEFAULT_SHARE_TTL_HOURS, MAX_SHARE_TTL_HOURS } = await import('./services/sharing');
+        const body = await request.json<{ expires_in_hours?: number; label?: string }>()
+            .catch(() => ({ expires_in_hours: undefined, label: undefined }));
+
+        const ttlHours = body.expires_in_hours ?? DEFAULT_SHARE_TTL_HOURS;
+        if (typeof ttlHours !== 'number' || !(ttlHours > 0) || ttlHours > MAX_SHARE_TTL_HOURS) {
+            return jsonResponse({ success: false, error: `expires_in_hours must be between 0 and ${MAX_SHARE_TTL_HOURS}` }, 400);
+        }
+
+        const share = await createShare(env, searchId, user, { ttlHours, label: body.label });
+
+        return jsonResponse({
+            success: true,
+            data: {
+                ...share,
+                listings_url: `${url.origin}/share/${share.token}/listings`,
+                opportunities_url: `${url.origin}/share/${share.token}/opportunities`,
+            },
+        }, 201);
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleRevokeShare(id: string, user: User, env: Env): Promise<Response> {
+    try {
+        const { revokeShare } = await import('./services/sharing');
+
+        if (!await revokeShare(env, id, user)) {
+            return jsonResponse({ success: false, error: 'Share link not found' }, 404);
+        }
+
+        return jsonResponse({ success: true, data: { revoked: id } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Read-only view of a shared search (no API token; the link token is checked instead)
+async function handleSharedRead(token: string, resource: string, params: URLSearchParams, env: Env): Promise<Response> {
+    try {
+        const { verifyShareToken } = await import('./services/sharing');
+        const searchId = await verifyShareToken(env, token);
+
+        if (!searchId) {
+            return jsonResponse({ success: false, error: 'Share link is invalid or expired' }, 403);
+        }
+
+        return resource === 'listings'
+            ? handleGetListings(params, searchScope(searchId), env)
+            : handleGetOpportunities(searchId, params, searchScope(searchId), env);
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// The caller's account
+async function handleGetMe(user: User): Promise<Response> {
+    return jsonResponse({ success: true, data: user });
+}
+
+async function handleGetTokens(user: User, env: Env): Promise<Response> {
+    try {
+        const { listTokens } = await import('./services/users');
+        const tokens = await listTokens(env, user.id);
+        return jsonResponse({ success: true, data: tokens });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Issue a personal token for the caller (the plain token is only returned here)
+async function handleCreateToken(request: Request, user: User, env: Env): Promise<Response> {
+    try {
+        const { createToken } = await import('./services/users');
+        const body = await request.json<{ name?: string }>().catch(() => ({ name: undefined }));
+
+        const token = await createToken(env, user.id, body.name || null);
+        return jsonResponse({ success: true, data: token }, 201);
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleRevokeToken(id: string, user: User, env: Env): Promise<Response> {
+    try {
+        const { revokeToken } = await import('./services/users');
+
+        if (!await revokeToken(env, user.id, id)) {
+            return jsonResponse({ success: false, error: 'Token not found' }, 404);
+        }
+
+        return jsonResponse({ success: true, data: { revoked: id } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleGetUsers(env: Env): Promise<Response> {
+    try {
+        const { listUsers } = await import('./services/users');
+        const users = await listUsers(env);
+        return jsonResponse({ success: true, data: users });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Create a user along with a first token to hand over to them
+async function handleCreateUser(request: Request, env: Env): Promise<Response> {
+    try {
+        const { createUser, createToken } = await import('./services/users');
+        const body: CreateUserRequest = await request.json();
+
+        if (!body.name || typeof body.name !== 'string') {
+            return jsonResponse({ success: false, error: 'name is required' }, 400);
+        }
+
+        const user = await createUser(env, body);
+        const token = await createToken(env, user.id, 'initial');
+
+        return jsonResponse({ success: true, data: { user, token } }, 201);
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Main request handler
+async function handleRequest(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+    const method = request.method;
+
+    // Handle CORS preflight
+    if (method === 'OPTIONS') {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    // Public routes
+    if (path === '/health') {
+        return jsonResponse({ success: true, data: { status: 'ok', timestamp: new Date().toISOString() } });
+    }
+    if (path === '/telegram/webhook' && method === 'POST') {
+        return handleTelegramWebhook(request, env);
+    }
+
+    // Match /share/:token/listings and /share/:token/opportunities (read-only share links)
+    const sharedMatch = path.match(/^\/share\/([^/]+)\/(listings|opportunities)$/);
+    if (sharedMatch && method === 'GET') {
+        return handleSharedRead(sharedMatch[1], sharedMatch[2], url.searchParams, env);
+    }
+
+    // Authentication
+    const { authenticate } = await import('./middleware/auth');
+    const { isAdmin } = await import('./services/users');
+    const auth = await authenticate(request, env);
+    if (auth instanceof Response) return auth;
+    const user = auth;
+
+    // Accounts and tokens
+    if (path === '/api/me' && method === 'GET') {
+        return handleGetMe(user);
+    }
+    if (path === '/api/tokens') {
+        if (method === 'GET') return handleGetTokens(user, env);
+        if (method === 'POST') return handleCreateToken(request, user, env);
+    }
+    const tokenMatch = path.match(/^\/api\/tokens\/([^/]+)$/);
+    if (tokenMatch && method === 'DELETE') {
+        return handleRevokeToken(tokenMatch[1], user, env);
+    }
+    if (path === '/api/users') {
+        if (!isAdmin(user)) return forbidden();
+        if (method === 'GET') return handleGetUsers(env);
+        if (method === 'POST') return handleCreateUser(request, env);
+    }
+
+    // API Routes
+    if (path === '/api/searches') {
+        if (method === 'GET') return handleGetSearches(user, env);
+        if (method === 'POST') return handleCreateSearch(request, user, env);
+    }
+
+    // Match /api/searches/:id
+    const searchMatch = path.match(/^\/api\/searches\/([^/]+)$/);
+    if (searchMatch) {
+        const id = searchMatch[1];
+        if (method === 'GET') return handleGetSearch(id, user, env);
+        if (method === 'PUT') return (await requireSearchRole(id, user, 'editor', env)) ?? handleUpdateSearch(id, request, env);
+        if (method === 'DELETE') return (await requireSearchRole(id, user, 'owner', env)) ?? handleDeleteSearch(id, env);
+    }
+
+    // Match /api/searches/:id/alerts
+    const alertsMatch = path.match(/^\/api\/searches\/([^/]+)\/alerts$/);
+    if (alertsMatch && method === 'GET') {
+        const scope = await resolveAlertScope(alertsMatch[1], user, env);
+        return scope instanceof Response ? scope : handleGetAlerts(scope, env);
+    }
+
+    // Match /api/searches/:id/models (get model statistics)
+    const modelsMatch = path.match(/^\/api\/searches\/([^/]+)\/models$/);
+    if (modelsMatch && method === 'GET') {
+        const scope = await resolveAlertScope(modelsMatch[1], user, env);
+        return scope instanceof Response ? scope : handleGetModels(modelsMatch[1], scope, env);
+    }
+
+    // Match /api/searches/:id/opportunities (get top opportunities)
+    const opportunitiesMatch = path.match(/^\/api\/searches\/([^/]+)\/opportunities$/);
+    if (opportunitiesMatch && method === 'GET') {
+        const scope = await resolveAlertScope(opportunitiesMatch[1], user, env);
+        return scope instanceof Response ? scope : handleGetOpportunities(opportunitiesMatch[1], url.searchParams, scope, env);
+    }
+
+    // Match /api/searches/:id/trends (model time series)
+    const trendsMatch = path.match(/^\/api\/searches\/([^/]+)\/trends$/);
+    if (trendsMatch && method === 'GET') {
+        const scope = await resolveAlertScope(trendsMatch[1], user, env);
+        return scope instanceof Response ? scope : handleGetTrends(url.searchParams, scope, env);
+    }
+
+    // Match /api/searches/:id/brands (get brand distribution)
+    const brandsMatch = path.match(/^\/api\/searches\/([^/]+)\/brands$/);
+    if (brandsMatch && method === 'GET') {
+        const scope = await resolveAlertScope(brandsMatch[1], user, env);
+        return scope instanceof Response ? scope : handleGetBrands(scope, env);
+    }
+
+    // Match /api/searches/:id/listings (get filtered listings)
+    const listingsMatch = path.match(/^\/api\/searches\/([^/]+)\/listings$/);
+    if (listingsMatch && method === 'GET') {
+        const scope = await resolveAlertScope(listingsMatch[1], user, env);
+        return scope instanceof Response ? scope : handleGetListings(url.searchParams, scope, env);
+    }
+
+    // Match /api/searches/:id/members and /api/searches/:id/members/:userId (roles, owner manages)
+    const membersMatch = path.match(/^\/api\/searches\/([^/]+)\/members$/);
+    if (membersMatch && method === 'GET') {
+        return (await requireSearchRole(membersMatch[1], user, 'viewer', env)) ?? handleGetMembers(membersMatch[1], env);
+    }
+    const memberMatch = path.match(/^\/api\/searches\/([^/]+)\/members\/([^/]+)$/);
+    if (memberMatch) {
+        const [, id, memberId] = memberMatch;
+        if (method === 'PUT') return (await requireSearchRole(id, user, 'owner', env)) ?? handleSetMember(id, memberId, request, env);
+        if (method === 'DELETE') return (await requireSearchRole(id, user, 'owner', env)) ?? handleRemoveMember(id, memberId, env);
+    }
+
+    // Match /api/searches/:id/shares (list/create share links) and /api/shares/:id (revoke)
+    const sharesMatch = path.match(/^\/api\/searches\/([^/]+)\/shares$/);
+    if (sharesMatch) {
+        const id = sharesMatch[1];
+        if (method === 'GET') return (await requireSearchRole(id, user, 'owner', env)) ?? handleGetShares(id, env);
+        if (method === 'POST') return (await requireSearchRole(id, user, 'owner', env)) ?? handleCreateShare(id, request, url, user, env);
+    }
+    const shareMatch = path.match(/^\/api\/shares\/([^/]+)$/);
+    if (shareMatch && method === 'DELETE') {
+        return handleRevokeShare(shareMatch[1], user, env);
+    }
+
+    // Match /api/searches/:id/webhooks (list/register webhooks)
+    const webhooksMatch = path.match(/^\/api\/searches\/([^/]+)\/webhooks$/);
+    if (webhooksMatch) {
+        const id = webhooksMatch[1];
+        if (method === 'GET') return (await requireSearchRole(id, user, 'editor', env)) ?? handleGetWebhooks(id, env);
+        if (method === 'POST') return (await requireSearchRole(id, user, 'editor', env)) ?? handleCreateWebhook(id, request, env);
+    }
+
+    // Match /api/webhooks/:id (remove webhook)
+    const webhookMatch = path.match(/^\/api\/webhooks\/([^/]+)$/);
+    if (webhookMatch) {
+        const id = webhookMatch[1];
+        if (method === 'DELETE') return handleDeleteWebhook(id, user, env);
+    }
+
+    // Match /api/webhooks/:id/deliveries and /api/webhooks/:id/test
+    const webhookDeliveriesMatch = path.match(/^\/api\/webhooks\/([^/]+)\/deliveries$/);
+    if (webhookDeliveriesMatch && method === 'GET') {
+        return handleGetWebhookDeliveries(webhookDeliveriesMatch[1], user, env);
+    }
+    const webhookTestMatch = path.match(/^\/api\/webhooks\/([^/]+)\/test$/);
+    if (webhookTestMatch && method === 'POST') {
+        return handleTestWebhook(webhookTestMatch[1], user, env);
+    }
+
+    // Match /api/searches/:id/telegram (list/register Telegram chats)
+    const telegramMatch = path.match(/^\/api\/searches\/([^/]+)\/telegram$/);
+    if (telegramMatch) {
+        const id = telegramMatch[1];
+        if (method === 'GET') return (await requireSearchRole(id, user, 'editor', env)) ?? handleGetTelegramChats(id, env);
+        if (method === 'POST') return (await requireSearchRole(id, user, 'editor', env)) ?? handleCreateTelegramChat(id, request, env);
+    }
+
+    // Match /api/telegram/chats/:id (remove chat)
+    const telegramChatMatch = path.match(/^\/api\/telegram\/chats\/([^/]+)$/);
+    if (telegramChatMatch && method === 'DELETE') {
+        return handleDeleteTelegramChat(telegramChatMatch[1], user, env);
+    }
+
+    if (path === '/api/telegram/setup' && method === 'POST') {
+        if (!isAdmin(user)) return forbidden();
+        return handleTelegramSetup(url, env);
+    }
+
+    // Match /api/alerts/:id (alert detail, update alert status)
+    const alertMatch = path.match(/^\/api\/alerts\/([^/]+)$/);
+    if (alertMatch) {
+        const id = alertMatch[1];
+        if (method === 'GET') return handleGetAlert(id, user, env);
+        if (method === 'PUT') return handleUpdateAlert(id, request, user, env);
+    }
+
+    // Match /api/listings/:listId/history (price history)
+    const historyMatch = path.match(/^\/api\/listings\/([^/]+)\/history$/);
+    if (historyMatch) {
+        const listId = historyMatch[1];
+        if (method === 'GET') return handleGetPriceHistory(listId, user, env);
+    }
+
+    // Match /api/digest (preview) and /api/digest/send (deliver)
+    if (path === '/api/digest' && method === 'GET') {
+        return handleGetDigest(url.searchParams, user, env);
+    }
+    if (path === '/api/digest/send' && method === 'POST') {
+        return handleSendDigest(url.searchParams, user, env);
+    }
+
+    // Match /api/export (backup) and /api/import (restore) of the caller's searches
+    if (path === '/api/export' && method === 'GET') {
+        return handleExportBackup(user, env);
+    }
+    if (path === '/api/import' && method === 'POST') {
+        return handleImportBackup(request, url.searchParams, user, env);
+    }
+
+    // Match /api/scan (scan all searches)
+    if (path === '/api/scan' && method === 'POST') {
+        return handleScanAll(url.searchParams, user, env);
+    }
+
+    // Match /api/scan/:id (scan specific search)
+    const scanMatch = path.match(/^\/api\/scan\/([^/]+)$/);
+    if (scanMatch && method === 'POST') {
+        const id = scanMatch[1];
+        return (await requireSearchRole(id, user, 'editor', env)) ?? handleScanOne(id, env);
+    }
+
+    // Match /api/migrations (status) and /api/migrate (apply pending), admin only
+    if (path === '/api/migrations' && method === 'GET') {
+        if (!isAdmin(user)) return forbidden();
+        return handleGetMigrations(env);
+    }
+    if (path === '/api/migrate' && method === 'POST') {
+        if (!isAdmin(user)) return forbidden();
+        return handleRunMigrations(env);
+    }
+
+    // Match /api/retention (apply retention policies now), admin only
+    if (path === '/api/retention' && method === 'POST') {
+        if (!isAdmin(user)) return forbidden();
+        return handleRunRetention(env);
+    }
+
+    // Match /api/catalog (brand/model catalog; edits are admin only)
+    if (path === '/api/catalog') {
+        if (method === 'GET') return handleGetCatalog(url.searchParams, env);
+        if (method === 'POST') return isAdmin(user) ? handleCreateCatalogEntry(request, env) : forbidden();
+    }
+    if (path === '/api/catalog/renormalize' && method === 'POST') {
+        if (!isAdmin(user)) return forbidden();
+        return handleRenormalizeCatalog(env);
+    }
+    const catalogEntryMatch = path.match(/^\/api\/catalog\/(\d+)$/);
+    if (catalogEntryMatch && method === 'DELETE') {
+        if (!isAdmin(user)) return forbidden();
+        return handleDeleteCatalogEntry(Number(catalogEntryMatch[1]), env);
+    }
+    const catalogAliasesMatch = path.match(/^\/api\/catalog\/(\d+)\/aliases$/);
+    if (catalogAliasesMatch && method === 'POST') {
+        if (!isAdmin(user)) return forbidden();
+        return handleAddCatalogAlias(Number(catalogAliasesMatch[1]), request, env);
+    }
+    const catalogAliasMatch = path.match(/^\/api\/catalog\/aliases\/(\d+)$/);
+    if (catalogAliasMatch && method === 'DELETE') {
+        if (!isAdmin(user)) return forbidden();
+        return handleDeleteCatalogAlias(Number(catalogAliasMatch[1]), env);
+    }
+
+    // Match /api/reference-prices (reference price table; import and clear are admin only)
+    if (path === '/api/reference-prices') {
+        if (method === 'GET') return handleGetReferencePrices(url.searchParams, env);
+        if (!isAdmin(user)) return forbidden();
+        if (method === 'POST') return handleImportReferencePrices(request, url.searchParams, env);
+        if (method === 'DELETE') return handleDeleteReferencePrices(env);
+    }
+
+    // Match /api/fetch-circuit (state, or close it by hand), admin only
+    if (path === '/api/fetch-circuit') {
+        if (!isAdmin(user)) return forbidden();
+        if (method === 'GET') return handleGetFetchCircuit(env);
+        if (method === 'DELETE') return handleResetFetchCircuit(env);
+    }
+
+    // Debug: Get raw OLX ad properties
+    if (path === '/api/debug/olx-sample' && method === 'GET') {
+        if (!isAdmin(user)) return forbidden();
+        return handleDebugOlxSample(env);
+    }
+
+    // 404 for unmatched routes
+    return jsonResponse({ success: false, error: 'Not Found' }, 404);
+}
+
+async function handleDebugOlxSample(env: Env): Promise<Response> {
+    try {
+        const { fetchPage, getBuildId, buildDataUrl } = await import('./services/olx-fetcher');
+
+        // Get a saved search to use its URL
+        const { results } = await env.DB.prepare('SELECT human_url FROM saved_searches LIMIT 1').all<{ human_url: string }>();
+        if (results.length === 0) {
+            return jsonResponse({ success: false, error: 'No saved searches' }, 404);
+        }
+
+        const humanUrl = results[0].human_url;
+        const buildId = await getBuildId(humanUrl);
+        if (!buildId) {
+            return jsonResponse({ success: false, error: 'Could not extract buildId' }, 502);
+        }
+        const dataUrl = buildDataUrl(humanUrl, buildId, 1);
+        const { ads } = await fetchPage(dataUrl);
+        if (!ads) {
+            return jsonResponse({ success: false, error: 'Data endpoint returned no pageProps.ads' }, 502);
+        }
+
+        // Return first 3 ads with all their properties
+        const sample = ads.slice(0, 3).map(ad => ({
+            listId: ad.listId,
+            subject: ad.subject,
+            price: ad.price,
+            properties: ad.properties,
+            // Include any other fields that might exist
+            raw: ad
+        }));
+
+        return jsonResponse({ success: true, data: { sample, total: ads.length } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Apply pending schema/data migrations
+async function handleRunMigrations(env: Env): Promise<Response> {
+    try {
+        const { runMigrations } = await import('./services/migrator');
+        const result = await runMigrations(env);
+
+        if (result.error) {
+            return jsonResponse({ success: false, data: result, error: result.error }, 500);
+        }
+
+        return jsonResponse({ success: true, data: result });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// List known migrations and their applied state
+async function handleGetMigrations(env: Env): Promise<Response> {
+    try {
+        const { getMigrationStatus } = await import('./services/migrator');
+        const status = await getMigrationStatus(env);
+        return jsonResponse({ success: true, data: status });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Apply retention policies (market snapshot, price history of unalerted ads, logs)
+async function handleRunRetention(env: Env): Promise<Response> {
+    try {
+        const { applyRetention } = await import('./services/retention');
+        return jsonResponse({ success: true, data: await applyRetention(env) });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Catalog entries with their aliases
+async function handleGetCatalog(params: URLSearchParams, env: Env): Promise<Response> {
+    try {
+        const { listCatalog, isCatalogKind } = await import('./services/catalog');
+
+        const kind = params.get('kind');
+        if (kind !== null && !isCatalogKind(kind)) {
+            return jsonResponse({ success: false, error: 'kind must be brand, model or version' }, 400);
+        }
+
+        return jsonResponse({ success: true, data: await listCatalog(env, kind ?? undefined) });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleCreateCatalogEntry(request: Request, env: Env): Promise<Response> {
+    try {
+        const { validateCatalogEntry, createCatalogEntry } = await import('./services/catalog');
+        const body: CreateCatalogEntryRequest = await request.json();
+
+        const validationError = await validateCatalogEntry(env, body);
+        if (validationError) {
+            return jsonResponse({ success: false, error: validationError }, 400);
+        }
+
+        const entry = await createCatalogEntry(env, body);
+        if (!entry) {
+            return jsonResponse({ success: false, error: 'Catalog entry already exists' }, 409);
+        }
+
+        return jsonResponse({ success: true, data: entry }, 201);
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleDeleteCatalogEntry(id: number, env: Env): Promise<Response> {
+    try {
+        const { deleteCatalogEntry } = await import('./services/catalog');
+        if (!(await deleteCatalogEntry(env, id))) {
+            return jsonResponse({ success: false, error: 'Catalog entry not found' }, 404);
+        }
+        return jsonResponse({ success: true, data: { deleted: id } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleAddCatalogAlias(entryId: number, request: Request, env: Env): Promise<Response> {
+    try {
+        const { addCatalogAlias } = await import('./services/catalog');
+        const body: { alias: string } = await request.json();
+
+        const alias = await addCatalogAlias(env, entryId, body.alias);
+        if (typeof alias === 'string') {
+            const status = alias === 'Catalog entry not found' ? 404 : alias.startsWith('Alias already') ? 409 : 400;
+            return jsonResponse({ success: false, error: alias }, status);
+        }
+
+        return jsonResponse({ success: true, data: alias }, 201);
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+async function handleDeleteCatalogAlias(id: number, env: Env): Promise<Response> {
+    try {
+        const { deleteCatalogAlias } = await import('./services/catalog');
+        if (!(await deleteCatalogAlias(env, id))) {
+            return jsonResponse({ success: false, error: 'Alias not found' }, 404);
+        }
+        return jsonResponse({ success: true, data: { deleted: id } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Time a single /api/catalog/renormalize call may spend before returning complete: false
+const RENORMALIZE_TIME_LIMIT_MS = 20_000;
+
+// Re-apply the catalog to stored ads; run again while complete is false
+async function handleRenormalizeCatalog(env: Env): Promise<Response> {
+    try {
+        const { renormalizeStoredAds } = await import('./services/catalog');
+        const result = await renormalizeStoredAds(env, { deadline: Date.now() + RENORMALIZE_TIME_LIMIT_MS });
+        return jsonResponse({ success: true, data: result });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Stored reference prices, optionally filtered by (normalized) model and year
+async function handleGetReferencePrices(params: URLSearchParams, env: Env): Promise<Response> {
+    try {
+        const model = params.get('model');
+        const year = params.get('year');
+        let query = 'SELECT * FROM reference_prices WHERE 1 = 1';
+        const bindings: (string | number)[] = [];
+
+        if (model) {
+            query += ' AND model LIKE ?';
+            bindings.push(`%${model}%`);
+        }
+        if (year) {
+            query += ' AND year = ?';
+            bindings.push(parseInt(year, 10));
+        }
+        query += ' ORDER BY model, year DESC, version LIMIT 200';
+
+        const { results } = await env.DB.prepare(query).bind(...bindings).all<ReferencePrice>();
+        return jsonResponse({ success: true, data: results });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Import a reference price table: a JSON array of rows, or CSV (text/csv body)
+async function handleImportReferencePrices(request: Request, params: URLSearchParams, env: Env): Promise<Response> {
+    try {
+        const { importReferencePrices, parseReferenceCsv, MAX_IMPORT_ROWS } = await import('./services/reference-prices');
+        const contentType = request.headers.get('Content-Type') || '';
+
+        const rows = contentType.includes('csv')
+            ? parseReferenceCsv(await request.text())
+            : await request.json<ReferencePriceInput[]>();
+        if (typeof rows === 'string') {
+            return jsonResponse({ success: false, error: rows }, 400);
+        }
+        if (!Array.isArray(rows) || rows.length === 0) {
+            return jsonResponse({ success: false, error: 'Expected a non-empty array of rows' }, 400);
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+            return jsonResponse({ success: false, error: `At most ${MAX_IMPORT_ROWS} rows per import` }, 400);
+        }
+
+        const result = await importReferencePrices(env, rows, {
+            source: params.get('source') || undefined,
+            replace: params.get('replace') === 'true',
+        });
+        return jsonResponse({ success: true, data: result });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Clear the reference price table
+async function handleDeleteReferencePrices(env: Env): Promise<Response> {
+    try {
+        const result = await env.DB.prepare('DELETE FROM reference_prices').run();
+        return jsonResponse({ success: true, data: { deleted: result.meta.changes } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Circuit breaker state, with whether scanning is currently paused
+async function handleGetFetchCircuit(env: Env): Promise<Response> {
+    try {
+        const { getCircuitState, isCircuitOpen } = await import('./services/fetch-policy');
+        const state = await getCircuitState(env);
+        return jsonResponse({ success: true, data: { ...state, open: isCircuitOpen(state) } });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Close the circuit breaker (e.g. after the block was lifted)
+async function handleResetFetchCircuit(env: Env): Promise<Response> {
+    try {
+        const { resetCircuit } = await import('./services/fetch-policy');
+        await resetCircuit(env);
+        return jsonResponse({ success: true });
+    } catch (error) {
+        return jsonResponse({ success: false, error: String(error) }, 500);
+    }
+}
+
+// Scan all searches the caller can edit (or only the due ones, same as the cron, with ?due=true)
+async function handleScanAll(params: URLSearchParams, user: User, env: Env): Promise<Response> {
+    try {
+        if (params.get('due') === 'true') {
+            const { runScheduledScans } = await import('./services/scheduler');
+            const run = await runScheduledScans(env, { userId: user.id });
+            return jsonResponse({ success: true, data: run });
+        }
+
+        const { scanSearch } = await import('./services/diff-engine');
+
+        const { EDITABLE_SEARCHES_SQL } = await import('./services/sharing');
         const { results } = await env.DB.prepare(
-            'SELECT * FROM saved_searches'
-        ).all<SavedSearchRow>();
+            `SELECT * FROM saved_searches WHERE id IN ${EDITABLE_SEARCHES_SQL}`
+        ).bind(user.id, user.id).all<SavedSearchRow>();
 
         const scanResults = [];
         for (const search of results) {
@@ -781,15 +1799,13 @@ async function handleScanOne(id: string, env: Env): Promise<Response> {
     try {
         const { scanSearch } = await import('./services/diff-engine');
 
-        const { results } = await env.DB.prepare(
-            'SELECT * FROM saved_searches WHERE id = ?'
-        ).bind(id).all<SavedSearchRow>();
-
-        if (results.length === 0) {
+        const search = await env.DB.prepare('SELECT * FROM saved_searches WHERE id = ?')
+            .bind(id)
+            .first<SavedSearchRow>();
+        if (!search) {
             return jsonResponse({ success: false, error: 'Search not found' }, 404);
         }
 
-        const search = results[0];
         const result = await scanSearch(env, search);
 
         return jsonResponse({
@@ -798,11 +1814,14 @@ async function handleScanOne(id: string, env: Env): Promise<Response> {
                 searchId: search.id,
                 searchName: search.name,
                 newCount: result.newCount,
+                priceDropCount: result.priceDropCount,
                 totalScanned: result.totalScanned,
                 newAds: result.alerts.map(a => ({
                     list_id: a.list_id,
                     subject: a.subject,
                     price: a.price,
+                    previous_price: a.previous_price,
+                    alert_type: a.alert_type,
                     ad_url: a.ad_url,
                 })),
             },
@@ -812,27 +1831,53 @@ async function handleScanOne(id: string, env: Env): Promise<Response> {
     }
 }
 
-// Scheduled handler for periodic scanning
-async function handleScheduled(env: Env): Promise<void> {
-    console.log('Scheduled scan triggered at', new Date().toISOString());
+// Cron expressions of the digest triggers (see wrangler.jsonc); any other cron runs the scans
+const DAILY_DIGEST_CRON = '0 11 * * *';    // 08:00 BRT
+const WEEKLY_DIGEST_CRON = '0 11 * * 1';   // Mondays 08:00 BRT
 
+// Scheduled handler for digests
+async function handleScheduledDigest(env: Env, period: 'day' | 'week'): Promise<void> {
     try {
-        const { scanSearch } = await import('./services/diff-engine');
+        const { sendAllDigests } = await import('./services/digest');
+        const results = await sendAllDigests(env, period);
+        for (const result of results) {
+            console.log(`Digest (${period}) of ${result.user_id}: sent via [${result.sent.join(', ')}], failed [${result.failed.join(', ')}]${result.empty ? ' (empty)' : ''}`);
+        }
+    } catch (error) {
+        console.error('Scheduled digest error:', error);
+    }
+}
 
-        const { results } = await env.DB.prepare(
-            'SELECT * FROM saved_searches'
-        ).all<SavedSearchRow>();
+// Daily cleanup of old rows, run with the daily digest
+async function handleScheduledRetention(env: Env): Promise<void> {
+    try {
+        const { applyRetention } = await import('./services/retention');
+        for (const result of await applyRetention(env)) {
+            if (result.deleted > 0) {
+                console.log(`Retention: deleted ${result.deleted} rows from ${result.table} older than ${result.days} days`);
+            }
+        }
+    } catch (error) {
+        console.error('Scheduled retention error:', error);
+    }
+}
 
-        console.log(`Found ${results.length} searches to scan`);
+// Scheduled handler for periodic scanning
+async function handleScheduled(env: Env): Promise<void> {
+    console.log('Scheduled scan triggered at', new Date().toISOString());
 
-        for (const search of results) {
-            try {
-                const result = await scanSearch(env, search);
-                console.log(`Scanned ${search.name}: ${result.newCount} new listings`);
-            } catch (error) {
-                console.error(`Error scanning ${search.name}:`, error);
+    try {
+        const { runScheduledScans } = await import('./services/scheduler');
+        const run = await runScheduledScans(env);
+
+        for (const scan of run.scanned) {
+            if (scan.error) {
+                console.error(`Error scanning ${scan.searchName}: ${scan.error}`);
+            } else {
+                console.log(`Scanned ${scan.searchName}: ${scan.newCount} new listings`);
             }
         }
+        console.log(`Scheduled run done: ${run.scanned.length} scanned, ${run.deferred.length} deferred, ${run.requests_count} requests in ${run.duration_ms}ms`);
     } catch (error) {
         console.error('Scheduled scan error:', error);
     }
@@ -845,6 +1890,13 @@ export default {
     },
 
     async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
-        ctx.waitUntil(handleScheduled(env));
+        if (event.cron === DAILY_DIGEST_CRON) {
+            ctx.waitUntil(handleScheduledDigest(env, 'day'));
+            ctx.waitUntil(handleScheduledRetention(env));
+        } else if (event.cron === WEEKLY_DIGEST_CRON) {
+            ctx.waitUntil(handleScheduledDigest(env, 'week'));
+        } else {
+            ctx.waitUntil(handleScheduled(env));
+        }
     },
 };
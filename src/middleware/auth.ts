@@ -1,32 +1,30 @@
-import { Env } from '../types';
+import { Env, User } from '../types';
 
-export function authenticate(request: Request, env: Env): Response | null {
-    // Skip auth for OPTIONS (CORS)
-    if (request.method === 'OPTIONS') {
-        return null; // Let the main handler return CORS headers
-    }
-
-    // Skip auth for healthcheck
-    const url = new URL(request.url);
-    if (url.pathname === '/health') {
-        return null;
-    }
+function unauthorized(): Response {
+    return new Response(JSON.stringify({
+        success: false,
+        error: 'Unauthorized'
+    }), {
+        status: 401,
+        headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*', // Ensure CORS works for 401 too
+        }
+    });
+}
 
+/**
+ * Resolve the caller from X-Access-Token (a personal token or the shared API_TOKEN).
+ * Public routes (CORS preflight, /health, /telegram/webhook) are handled before this runs.
+ */
+export async function authenticate(request: Request, env: Env): Promise<User | Response> {
     const token = request.headers.get('X-Access-Token');
-    const validToken = env.API_TOKEN;
-
-    if (!token || token !== validToken) {
-        return new Response(JSON.stringify({
-            success: false,
-            error: 'Unauthorized'
-        }), {
-            status: 401,
-            headers: {
-                'Content-Type': 'application/json',
-                'Access-Control-Allow-Origin': '*', // Ensure CORS works for 401 too
-            }
-        });
+    if (!token) {
+        return unauthorized();
     }
 
-    return null; // Auth success
+    const { findUserByToken } = await import('../services/users');
+    const user = await findUserByToken(env, token);
+
+    return user || unauthorized();
 }
@@ -0,0 +1,175 @@
+/**
+ * Ad Details Service
+ * Optional enrichment of new alerts with the fields only found on the ad detail
+ * page: full description, every photo, optionals, seller type and verified phone
+ */
+
+import { Env, Alert, OlxAdDetail } from '../types';
+import { FetchContext, createFetchContext, policyFetch } from './fetch-policy';
+import { extractNextData } from './olx-fetcher';
+
+// Detail pages fetched per scan at most; the remaining new alerts stay unenriched
+export const MAX_ENRICHED_PER_SCAN = 10;
+
+// Property holding the optionals ("Ar condicionado, Direção hidráulica, ...")
+const OPTIONALS_PROPERTIES = ['car_features', 'vehicle_features'];
+const OPTIONALS_LABELS = ['opcionais', 'características'];
+
+export interface AdDetails {
+    description: string | null;
+    photos: string[];
+    optionals: string[];
+    seller_type: Alert['seller_type'];
+    phone_verified: boolean | null;
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&#x27;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * The ad object of a detail page: __NEXT_DATA__'s pageProps.ad, or the
+ * data-json attribute of the initial-data script on older pages
+ */
+function findAdObject(html: string): OlxAdDetail | null {
+    const nextData = extractNextData<{ props?: { pageProps?: { ad?: OlxAdDetail } } }>(html);
+    if (nextData?.props?.pageProps?.ad) return nextData.props.pageProps.ad;
+
+    const match = html.match(/<script[^>]*id="initial-data"[^>]*data-json="([^"]*)"/);
+    if (!match) return null;
+
+    try {
+        const data: { ad?: OlxAdDetail } = JSON.parse(decodeEntities(match[1]));
+        return data.ad ?? null;
+    } catch (error) {
+        console.error('Invalid initial-data JSON:', error);
+        return null;
+    }
+}
+
+/**
+ * Description as plain text (the page's is HTML with <br> line breaks)
+ */
+function cleanDescription(description: string): string {
+    return decodeEntities(
+        description
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(/<[^>]+>/g, '')
+    ).trim();
+}
+
+/**
+ * Extract the detail fields of an ad page (null when the page has no ad data)
+ */
+export function parseAdDetails(html: string): AdDetails | null {
+    const ad = findAdObject(html);
+    if (!ad) return null;
+
+    const photos = (ad.images || [])
+        .map(image => image.original || image.originalWebp)
+        .filter((url): url is string => !!url);
+
+    const optionalsProp = (ad.properties || []).find(p =>
+        (p.name && OPTIONALS_PROPERTIES.includes(p.name)) ||
+        OPTIONALS_LABELS.includes(p.label?.toLowerCase())
+    );
+    const optionals = optionalsProp?.value
+        ? optionalsProp.value.split(',').map(item => item.trim()).filter(Boolean)
+        : [];
+
+    const professional = ad.professionalAd ?? ad.user?.professionalAd
+        ?? (ad.user?.accountType ? ad.user.accountType === 'professional' : undefined);
+
+    return {
+        description: ad.description ? cleanDescription(ad.description) : null,
+        photos: Array.from(new Set(photos)),
+        optionals,
+        seller_type: professional === undefined ? null : professional ? 'professional' : 'private',
+        phone_verified: ad.phone?.phoneVerified ?? null,
+    };
+}
+
+/**
+ * Fetch and parse an ad detail page
+ */
+export async function fetchAdDetails(adUrl: string, context?: FetchContext): Promise<AdDetails | null> {
+    try {
+        const response = await policyFetch(adUrl, {
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+                'Accept': 'text/html,application/xhtml+xml',
+            },
+        }, context);
+
+        if (!response.ok) {
+            console.error(`Failed to fetch ad page ${adUrl}: ${response.status}`);
+            return null;
+        }
+
+        const details = parseAdDetails(await response.text());
+        if (!details) console.warn(`No ad data found in ${adUrl}`);
+        return details;
+    } catch (error) {
+        console.error('Error fetching ad page:', error);
+        return null;
+    }
+}
+
+/**
+ * Enrich the new alerts of a scan with their detail pages: the fields are stored
+ * and set on the alerts in place (so notifications include them). Stops early
+ * when OLX blocks the requests or the deadline passes.
+ */
+export async function enrichAlerts(
+    env: Env,
+    alerts: Alert[],
+    options: { maxAds?: number; deadline?: number } = {}
+): Promise<{ enriched: number; requests_count: number }> {
+    const candidates = alerts
+        .filter(alert => alert.alert_type === 'new' && alert.id > 0)
+        .slice(0, options.maxAds ?? MAX_ENRICHED_PER_SCAN);
+    const context = createFetchContext(options.deadline);
+    const stmt = env.DB.prepare(`
+        UPDATE alerts SET description = ?, photos = ?, optionals = ?, seller_type = ?, phone_verified = ?, enriched_at = ?
+        WHERE id = ?
+    `);
+    const batch: D1PreparedStatement[] = [];
+    let requestsCount = 0;
+
+    for (const alert of candidates) {
+        if (context.blocked || (options.deadline !== undefined && Date.now() >= options.deadline)) break;
+
+        requestsCount++;
+        const details = await fetchAdDetails(alert.ad_url, context);
+        if (!details) continue;
+
+        Object.assign(alert, {
+            description: details.description,
+            photos: JSON.stringify(details.photos),
+            optionals: JSON.stringify(details.optionals),
+            seller_type: details.seller_type,
+            phone_verified: details.phone_verified === null ? null : details.phone_verified ? 1 : 0,
+            enriched_at: new Date().toISOString(),
+        });
+        batch.push(stmt.bind(
+            alert.description,
+            alert.photos,
+            alert.optionals,
+            alert.seller_type,
+            alert.phone_verified,
+            alert.enriched_at,
+            alert.id
+        ));
+    }
+
+    if (batch.length > 0) {
+        await env.DB.batch(batch);
+    }
+
+    return { enriched: batch.length, requests_count: requestsCount };
+}
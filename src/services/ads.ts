@@ -0,0 +1,119 @@
+/**
+ * Ads Service
+ * Canonical ad (one row per OLX list_id) shared by every search that matched it.
+ * alerts rows are the membership of an ad in a search and keep the per-search state.
+ */
+
+import { Env, Listing } from '../types';
+
+// D1 caps bound parameters per statement
+const CHUNK_SIZE = 90;
+
+// Listing fields stored on the ad (and copied onto every alert row)
+export const AD_LISTING_COLUMNS = [
+    'list_id', 'subject', 'price', 'municipality', 'neighbourhood', 'ad_url', 'brand', 'model',
+    'thumbnail_url', 'mileage', 'price_cents', 'year', 'version', 'fuel', 'gearbox', 'color',
+    'doors', 'engine', 'car_type', 'steering',
+] as const;
+
+/**
+ * SQL subquery of the ads that belong to the searches matched by a scope
+ * (a WHERE clause over alerts). Binds whatever the scope binds.
+ */
+export function scopedAdsSql(scopeSql: string): string {
+    return `(SELECT list_id FROM alerts WHERE ${scopeSql})`;
+}
+
+/**
+ * SQL of one alert per ad within a scope (the oldest one), with the listing
+ * fields taken from the canonical ad. Binds whatever the scope binds.
+ */
+export function canonicalAlertsSql(scopeSql: string): string {
+    return `
+        SELECT ads.*, a.id, a.search_id, a.user_id, a.status, a.alert_type, a.previous_price,
+               a.missed_scans, ads.first_seen_at as created_at
+        FROM alerts a
+        JOIN ads ON ads.list_id = a.list_id
+        WHERE a.id IN (SELECT MIN(id) FROM alerts WHERE ${scopeSql} GROUP BY list_id)
+    `;
+}
+
+/**
+ * Insert new ads and refresh the listing fields of known ones
+ */
+export async function upsertAds(env: Env, listings: Listing[]): Promise<void> {
+    if (listings.length === 0) return;
+
+    const now = new Date().toISOString();
+    const columns = AD_LISTING_COLUMNS.join(', ');
+    const updates = AD_LISTING_COLUMNS
+        .filter(column => column !== 'list_id')
+        .map(column => `${column} = excluded.${column}`)
+        .join(', ');
+
+    const stmt = env.DB.prepare(`
+        INSERT INTO ads (${columns}, first_seen_at, last_seen_at)
+        VALUES (${AD_LISTING_COLUMNS.map(() => '?').join(', ')}, ?, ?)
+        ON CONFLICT(list_id) DO UPDATE SET ${updates}, last_seen_at = excluded.last_seen_at, removed_at = NULL
+    `);
+
+    await env.DB.batch(listings.map(listing =>
+        stmt.bind(...AD_LISTING_COLUMNS.map(column => listing[column] ?? null), now, now)
+    ));
+}
+
+/**
+ * Statements that sync ads with the removal state of their alerts: present ads
+ * are seen again, and an ad is removed once no search has it active anymore.
+ * Meant to run in the same batch as the alerts update, after it.
+ */
+export function adPresenceStatements(
+    env: Env,
+    presentIds: string[],
+    missingIds: string[],
+    now: string
+): D1PreparedStatement[] {
+    const batch: D1PreparedStatement[] = [];
+
+    for (let i = 0; i < presentIds.length; i += CHUNK_SIZE) {
+        const chunk = presentIds.slice(i, i + CHUNK_SIZE);
+        batch.push(env.DB.prepare(`
+            UPDATE ads SET last_seen_at = ?, removed_at = NULL
+            WHERE list_id IN (${chunk.map(() => '?').join(', ')})
+        `).bind(now, ...chunk));
+    }
+    for (let i = 0; i < missingIds.length; i += CHUNK_SIZE) {
+        const chunk = missingIds.slice(i, i + CHUNK_SIZE);
+        batch.push(env.DB.prepare(`
+            UPDATE ads SET removed_at = COALESCE(last_seen_at, ?)
+            WHERE removed_at IS NULL AND list_id IN (${chunk.map(() => '?').join(', ')})
+              AND NOT EXISTS (SELECT 1 FROM alerts WHERE alerts.list_id = ads.list_id AND alerts.removed_at IS NULL)
+        `).bind(now, ...chunk));
+    }
+
+    return batch;
+}
+
+/**
+ * Ids, among listIds, that one user already has in a search other than searchId
+ */
+export async function findAdsInOtherSearches(
+    env: Env,
+    userId: string | null,
+    searchId: string,
+    listIds: string[]
+): Promise<Set<string>> {
+    const found = new Set<string>();
+    if (!userId) return found;
+
+    for (let i = 0; i < listIds.length; i += CHUNK_SIZE) {
+        const chunk = listIds.slice(i, i + CHUNK_SIZE);
+        const { results } = await env.DB.prepare(`
+            SELECT DISTINCT list_id FROM alerts
+            WHERE user_id = ? AND search_id != ? AND list_id IN (${chunk.map(() => '?').join(', ')})
+        `).bind(userId, searchId, ...chunk).all<{ list_id: string }>();
+        results.forEach(r => found.add(r.list_id));
+    }
+
+    return found;
+}
@@ -0,0 +1,327 @@
+/**
+ * Backup Service
+ * Versioned JSON bundle of a user's saved searches (config, alert statuses and
+ * seen IDs), to move them between databases (e.g. wrangler dev and production)
+ */
+
+import { Env, Alert, BackupBundle, BackupSearch, SavedSearchRow, SearchRules, User } from '../types';
+import { parseWeights, validateWeights } from './scoring';
+import { validateRules } from './rules';
+import { ALERT_STATUSES } from './diff-engine';
+
+export const BACKUP_FORMAT = 'olx-car-finder-backup';
+export const BACKUP_VERSION = 1;
+
+// Statements per D1 batch when restoring
+const IMPORT_BATCH_SIZE = 500;
+
+export type ImportMode = 'merge' | 'replace';
+
+// Something in the bundle that disagreed with the database, and which side won
+export interface ImportConflict {
+    search_id: string;
+    reason: 'owned_by_other_user' | 'invalid' | 'config_differs' | 'status_differs';
+    resolution: 'skipped' | 'kept' | 'replaced';
+    detail: string;
+}
+
+export interface ImportResult {
+    mode: ImportMode;
+    searches_created: number;
+    searches_updated: number;
+    seen_ids_added: number;
+    statuses_applied: number;
+    statuses_pending: number;   // Statuses of ads with no alert here yet, applied once the alert is created
+    conflicts: ImportConflict[];
+}
+
+// Config fields restored and compared, in bundle form
+const CONFIG_FIELDS = [
+    'name', 'human_url', 'check_period_minutes', 'model_whitelist', 'model_blacklist', 'ignored_brands',
+    'ignored_models', 'rules', 'opportunity_weights', 'min_group_size', 'crawl_enabled', 'enrich_enabled',
+] as const;
+
+type SearchConfig = Pick<BackupSearch, typeof CONFIG_FIELDS[number]>;
+
+function parseList(json: string | null): string[] {
+    try {
+        const parsed = JSON.parse(json || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+function toConfig(row: SavedSearchRow): SearchConfig {
+    let rules: SearchRules = {};
+    try {
+        rules = JSON.parse(row.rules || '{}') || {};
+    } catch {
+        // Unparseable rules behave as no rules during scans too
+    }
+
+    return {
+        name: row.name,
+        human_url: row.human_url,
+        check_period_minutes: row.check_period_minutes,
+        model_whitelist: parseList(row.model_whitelist),
+        model_blacklist: parseList(row.model_blacklist),
+        ignored_brands: parseList(row.ignored_brands),
+        ignored_models: parseList(row.ignored_models),
+        rules,
+        opportunity_weights: parseWeights(row.opportunity_weights),
+        min_group_size: row.min_group_size,
+        crawl_enabled: row.crawl_enabled === 1,
+        enrich_enabled: row.enrich_enabled === 1,
+    };
+}
+
+/**
+ * Bundle of the searches a user owns (shared searches belong to their owner's backup)
+ */
+export async function buildBackup(env: Env, user: User): Promise<BackupBundle> {
+    const { results: rows } = await env.DB.prepare(
+        'SELECT * FROM saved_searches WHERE user_id = ? ORDER BY created_at'
+    ).bind(user.id).all<SavedSearchRow>();
+
+    const searches: BackupSearch[] = [];
+    for (const row of rows) {
+        const { results: statuses } = await env.DB.prepare(
+            "SELECT list_id, status FROM alerts WHERE search_id = ? AND status != 'new'"
+        ).bind(row.id).all<{ list_id: string; status: Alert['status'] }>();
+        const { results: seen } = await env.DB.prepare(
+            'SELECT list_id FROM seen_ids WHERE search_id = ? ORDER BY id'
+        ).bind(row.id).all<{ list_id: string }>();
+
+        searches.push({
+            id: row.id,
+            ...toConfig(row),
+            created_at: row.created_at,
+            alert_statuses: Object.fromEntries(statuses.map(s => [s.list_id, s.status])),
+            seen_ids: seen.map(s => s.list_id),
+        });
+    }
+
+    return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exported_at: new Date().toISOString(), searches };
+}
+
+/**
+ * Check the envelope of a bundle (searches are checked one by one on import)
+ */
+export function validateBackup(bundle: unknown): string | null {
+    const candidate = bundle as Partial<BackupBundle> | null;
+    if (typeof candidate !== 'object' || candidate === null || candidate.format !== BACKUP_FORMAT) {
+        return `Not a backup bundle (format must be ${BACKUP_FORMAT})`;
+    }
+    if (typeof candidate.version !== 'number' || candidate.version > BACKUP_VERSION) {
+        return `Unsupported backup version ${candidate.version} (this server reads up to ${BACKUP_VERSION})`;
+    }
+    if (!Array.isArray(candidate.searches)) {
+        return 'searches must be an array';
+    }
+    return null;
+}
+
+function validateSearch(search: BackupSearch): string | null {
+    if (typeof search.id !== 'string' || !search.id) return 'id is required';
+    if (typeof search.name !== 'string' || !search.name) return 'name is required';
+    if (typeof search.human_url !== 'string' || !search.human_url) return 'human_url is required';
+
+    // Missing values fall back to the defaults of the API
+    for (const field of ['check_period_minutes', 'min_group_size'] as const) {
+        const value = search[field];
+        if (value !== undefined && value !== null && !(Number.isInteger(value) && value > 0)) {
+            return `${field} must be a positive integer`;
+        }
+    }
+
+    for (const field of ['model_whitelist', 'model_blacklist', 'ignored_brands', 'ignored_models', 'seen_ids'] as const) {
+        const value = search[field];
+        if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+            return `${field} must be an array of strings`;
+        }
+    }
+    const statuses = Object.values(search.alert_statuses || {});
+    if (statuses.some(status => !ALERT_STATUSES.includes(status))) {
+        return `alert_statuses must be one of: ${ALERT_STATUSES.join(', ')}`;
+    }
+
+    return validateRules(search.rules ?? {}) ?? validateWeights(search.opportunity_weights ?? {});
+}
+
+// Config of a bundled search with the defaults and weight normalization of the API applied
+function importedConfig(search: BackupSearch): SearchConfig {
+    return {
+        name: search.name,
+        human_url: search.human_url,
+        check_period_minutes: search.check_period_minutes || 60,
+        model_whitelist: search.model_whitelist,
+        model_blacklist: search.model_blacklist,
+        ignored_brands: search.ignored_brands,
+        ignored_models: search.ignored_models,
+        rules: search.rules ?? {},
+        opportunity_weights: parseWeights(JSON.stringify(search.opportunity_weights ?? {})),
+        min_group_size: search.min_group_size || 5,
+        crawl_enabled: !!search.crawl_enabled,
+        enrich_enabled: !!search.enrich_enabled,
+    };
+}
+
+// Column values of a config, in CONFIG_FIELDS order
+function configValues(config: SearchConfig): unknown[] {
+    return CONFIG_FIELDS.map(field => {
+        const value = config[field];
+        if (typeof value === 'boolean') return value ? 1 : 0;
+        return typeof value === 'object' ? JSON.stringify(value) : value;
+    });
+}
+
+/**
+ * Restore a bundle into the user's searches.
+ * - merge: missing searches are created, seen IDs are added, and statuses are
+ *   applied to alerts still 'new'; differing config and statuses are kept and
+ *   reported as conflicts
+ * - replace: the bundle wins for every search it holds (config, statuses, seen
+ *   IDs); searches not in the bundle are left alone
+ * Searches owned by another user are never touched.
+ */
+export async function importBackup(env: Env, bundle: BackupBundle, user: User, mode: ImportMode): Promise<ImportResult> {
+    const result: ImportResult = {
+        mode,
+        searches_created: 0,
+        searches_updated: 0,
+        seen_ids_added: 0,
+        statuses_applied: 0,
+        statuses_pending: 0,
+        conflicts: [],
+    };
+
+    const insertSeen = env.DB.prepare('INSERT OR IGNORE INTO seen_ids (search_id, list_id) VALUES (?, ?)');
+    const updateStatus = env.DB.prepare('UPDATE alerts SET status = ? WHERE search_id = ? AND list_id = ?');
+    const insertPending = env.DB.prepare(mode === 'replace'
+        ? 'INSERT OR REPLACE INTO pending_alert_statuses (search_id, list_id, status) VALUES (?, ?, ?)'
+        : 'INSERT OR IGNORE INTO pending_alert_statuses (search_id, list_id, status) VALUES (?, ?, ?)');
+
+    for (const search of bundle.searches) {
+        const invalid = validateSearch(search);
+        if (invalid) {
+            result.conflicts.push({ search_id: String(search.id), reason: 'invalid', resolution: 'skipped', detail: invalid });
+            continue;
+        }
+
+        const existing = await env.DB.prepare('SELECT * FROM saved_searches WHERE id = ?')
+            .bind(search.id)
+            .first<SavedSearchRow>();
+
+        if (existing && existing.user_id !== user.id) {
+            result.conflicts.push({
+                search_id: search.id,
+                reason: 'owned_by_other_user',
+                resolution: 'skipped',
+                detail: 'A search with this id belongs to another user',
+            });
+            continue;
+        }
+
+        const statements: D1PreparedStatement[] = [];
+        const config = importedConfig(search);
+
+        if (!existing) {
+            statements.push(env.DB.prepare(`
+                INSERT INTO saved_searches (id, user_id, ${CONFIG_FIELDS.join(', ')}, created_at)
+                VALUES (?, ?, ${CONFIG_FIELDS.map(() => '?').join(', ')}, ?)
+            `).bind(search.id, user.id, ...configValues(config), search.created_at || new Date().toISOString()));
+            result.searches_created++;
+        } else {
+            const current = toConfig(existing);
+            const differing = CONFIG_FIELDS.filter(field => JSON.stringify(current[field]) !== JSON.stringify(config[field]));
+
+            if (differing.length > 0) {
+                result.conflicts.push({
+                    search_id: search.id,
+                    reason: 'config_differs',
+                    resolution: mode === 'replace' ? 'replaced' : 'kept',
+                    detail: differing.join(', '),
+                });
+                if (mode === 'replace') {
+                    // Toggling the deep crawl starts a fresh cycle, as through the API
+                    const crawlReset = differing.includes('crawl_enabled') ? ', last_sp_scanned = 0, crawl_anchor_id = NULL' : '';
+                    statements.push(env.DB.prepare(`
+                        UPDATE saved_searches SET ${CONFIG_FIELDS.map(field => `${field} = ?`).join(', ')}${crawlReset}, updated_at = datetime('now')
+                        WHERE id = ?
+                    `).bind(...configValues(config), search.id));
+                    result.searches_updated++;
+                }
+            }
+        }
+
+        // Alert statuses, matched by list_id on the alerts this database already has
+        if (mode === 'replace' && existing) {
+            statements.push(env.DB.prepare('DELETE FROM pending_alert_statuses WHERE search_id = ?').bind(search.id));
+        }
+        const { results: alerts } = existing
+            ? await env.DB.prepare('SELECT list_id, status FROM alerts WHERE search_id = ?').bind(search.id).all<{ list_id: string; status: Alert['status'] }>()
+            : { results: [] as Array<{ list_id: string; status: Alert['status'] }> };
+        const currentStatuses = new Map(alerts.map(alert => [alert.list_id, alert.status]));
+        const importedStatuses = search.alert_statuses || {};
+        let statusConflicts = 0;
+        const pendingIds = new Set<string>();
+
+        for (const [listId, status] of Object.entries(importedStatuses)) {
+            const current = currentStatuses.get(listId);
+            if (current === undefined) {
+                // No alert yet (e.g. a fresh database): kept until the search creates it
+                statements.push(insertPending.bind(search.id, listId, status));
+                pendingIds.add(listId);
+                result.statuses_pending++;
+                continue;
+            }
+            if (current === status) continue;
+            if (current !== 'new') {
+                statusConflicts++;
+                if (mode === 'merge') continue;
+            }
+            statements.push(updateStatus.bind(status, search.id, listId));
+            result.statuses_applied++;
+        }
+        if (mode === 'replace') {
+            // Alerts the bundle has as 'new' (absent from it) go back to 'new'
+            for (const [listId, status] of currentStatuses) {
+                if (status === 'new' || listId in importedStatuses) continue;
+                statusConflicts++;
+                statements.push(updateStatus.bind('new', search.id, listId));
+                result.statuses_applied++;
+            }
+        }
+
+        // Seen IDs: replace drops the ones the bundle does not have. Ads with a
+        // pending status stay unseen, so the next scan creates their alert.
+        if (mode === 'replace' && existing) {
+            statements.push(env.DB.prepare('DELETE FROM seen_ids WHERE search_id = ?').bind(search.id));
+        }
+        const { results: seenRows } = existing && mode === 'merge'
+            ? await env.DB.prepare('SELECT list_id FROM seen_ids WHERE search_id = ?').bind(search.id).all<{ list_id: string }>()
+            : { results: [] as Array<{ list_id: string }> };
+        const alreadySeen = new Set(seenRows.map(row => row.list_id));
+        for (const listId of new Set(search.seen_ids)) {
+            if (alreadySeen.has(listId) || pendingIds.has(listId)) continue;
+            statements.push(insertSeen.bind(search.id, listId));
+            result.seen_ids_added++;
+        }
+
+        if (statusConflicts > 0) {
+            result.conflicts.push({
+                search_id: search.id,
+                reason: 'status_differs',
+                resolution: mode === 'replace' ? 'replaced' : 'kept',
+                detail: `${statusConflicts} alert(s) already had another status`,
+            });
+        }
+
+        for (let i = 0; i < statements.length; i += IMPORT_BATCH_SIZE) {
+            await env.DB.batch(statements.slice(i, i + IMPORT_BATCH_SIZE));
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,486 @@
+/**
+ * Catalog Service
+ * Canonical brand/model/version names and their aliases ("VW", "VOLKSWAGEN",
+ * "VW - VOLKSWAGEN" -> Volkswagen), applied when ads are parsed so the same car
+ * always lands in the same group for medians and model stats
+ */
+
+import { Env, CatalogEntry, CatalogAlias, CatalogKind } from '../types';
+
+// Aliases per catalog load are cached per isolate; edits through the API reset it
+const CATALOG_CACHE_TTL = 10 * 60 * 1000;
+
+// Rows per statement batch of the re-normalization job
+const RENORMALIZE_BATCH_SIZE = 500;
+
+// Tables holding brand/model/version copies of the ads
+const NORMALIZED_TABLES = ['alerts', 'ads', 'listings'] as const;
+
+// Words that end the model name when no catalog entry matched ("GOL 1.0 8V FLEX" -> "Gol")
+const MODEL_SPEC_WORD = /^(\d[.,]\d|(19|20)\d{2}|\d{1,2}v|\d+p|flex|gasolina|diesel|alcool|álcool|manual|automatico|automático|aut|mt|at|turbo|tsi|mpi)$/i;
+
+export interface Catalog {
+    brands: Map<string, string>;                 // alias key -> canonical brand
+    models: Map<string, Map<string, string>>;    // canonical brand -> alias key -> canonical model
+    versions: Map<string, Map<string, string>>;  // "brand model" -> alias key -> canonical version
+}
+
+export interface NormalizedVehicle {
+    brand: string | null;
+    model: string | null;   // "Brand Model", the grouping key used everywhere
+    version: string | null;
+}
+
+export interface RenormalizeResult {
+    table: string;
+    scanned: number;
+    updated: number;
+}
+
+export const EMPTY_CATALOG: Catalog = { brands: new Map(), models: new Map(), versions: new Map() };
+
+// Built-in catalog, inserted by the seed_catalog migration; later edits go through the API.
+// Models are a canonical name, or [canonical name, ...aliases].
+export const CATALOG_SEED: Array<{ brand: string; aliases: string[]; models: Array<string | string[]> }> = [
+    {
+        brand: 'Volkswagen', aliases: ['vw', 'volks', 'vw volkswagen'],
+        models: ['Gol', 'Voyage', 'Fox', ['Spacefox', 'space fox'], 'Polo', 'Virtus', ['T-Cross', 'tcross'], 'Nivus', 'Saveiro', ['Up', 'up!'], 'Golf', 'Jetta', 'Amarok', 'Taos', 'Tiguan'],
+    },
+    {
+        brand: 'Chevrolet', aliases: ['gm', 'chevy', 'gm chevrolet'],
+        models: ['Onix', ['Onix Plus', 'onix sedan'], 'Prisma', 'Celta', 'Corsa', 'Classic', 'Agile', 'Cobalt', 'Cruze', 'Tracker', 'Spin', 'Montana', 'S10', 'Equinox'],
+    },
+    {
+        brand: 'Fiat', aliases: [],
+        models: ['Uno', 'Palio', 'Siena', 'Grand Siena', 'Strada', 'Toro', 'Argo', 'Cronos', 'Mobi', 'Pulse', 'Fastback', 'Punto', 'Doblo', 'Idea'],
+    },
+    {
+        brand: 'Ford', aliases: [],
+        models: ['Ka', ['Ka Sedan', 'ka+', 'ka plus'], 'Fiesta', 'Focus', ['EcoSport', 'eco sport'], 'Ranger', 'Fusion', 'Territory'],
+    },
+    {
+        brand: 'Toyota', aliases: [],
+        models: ['Corolla', 'Corolla Cross', 'Etios', 'Yaris', 'Hilux', ['SW4', 'hilux sw4'], 'RAV4'],
+    },
+    {
+        brand: 'Honda', aliases: [],
+        models: ['Civic', 'City', 'Fit', ['HR-V', 'hrv'], ['WR-V', 'wrv'], ['CR-V', 'crv']],
+    },
+    {
+        brand: 'Hyundai', aliases: [],
+        models: [['HB20', 'hb 20'], ['HB20S', 'hb20 s', 'hb 20s'], 'Creta', 'Tucson', 'ix35', 'i30'],
+    },
+    {
+        brand: 'Renault', aliases: [],
+        models: ['Sandero', 'Logan', 'Kwid', 'Duster', ['Oroch', 'duster oroch'], 'Captur', 'Clio'],
+    },
+    {
+        brand: 'Nissan', aliases: [],
+        models: ['March', 'Versa', 'Kicks', 'Sentra', 'Frontier'],
+    },
+    {
+        brand: 'Jeep', aliases: [],
+        models: ['Renegade', 'Compass', 'Commander'],
+    },
+    {
+        brand: 'Peugeot', aliases: [],
+        models: ['207', '208', '2008', '308', '3008'],
+    },
+    {
+        brand: 'Citroën', aliases: ['citroen'],
+        models: ['C3', ['C4 Cactus', 'cactus'], ['Aircross', 'c3 aircross']],
+    },
+    {
+        brand: 'Mitsubishi', aliases: [],
+        models: [['L200', 'l200 triton', 'triton'], 'Pajero', 'Outlander', 'ASX'],
+    },
+    { brand: 'Kia', aliases: ['kia motors'], models: ['Picanto', 'Cerato', 'Sportage', 'Soul'] },
+    { brand: 'Mercedes-Benz', aliases: ['mercedes', 'mb', 'm benz'], models: [] },
+    { brand: 'BMW', aliases: [], models: [] },
+    { brand: 'Audi', aliases: [], models: [] },
+    { brand: 'Chery', aliases: ['caoa chery'], models: [] },
+    { brand: 'Suzuki', aliases: [], models: [] },
+    { brand: 'Land Rover', aliases: ['landrover'], models: [] },
+    { brand: 'Volvo', aliases: [], models: [] },
+    { brand: 'Dodge', aliases: [], models: [] },
+    { brand: 'RAM', aliases: [], models: [] },
+    { brand: 'BYD', aliases: [], models: [] },
+    { brand: 'JAC', aliases: ['jac motors'], models: [] },
+];
+
+/**
+ * Lookup form of a name: lowercase, no accents, punctuation collapsed to spaces
+ */
+export function aliasKey(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+// Display form of a name the catalog does not know ("GOL" -> "Gol", "hb20" -> "HB20")
+function tidyWord(word: string): string {
+    if (/\d/.test(word)) return word.toUpperCase();
+    return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+function versionScope(brand: string, model: string): string {
+    return `${brand} ${model}`;
+}
+
+/**
+ * Longest prefix of the tokens (up to 4) whose key is in the map
+ */
+function matchPrefix(tokens: string[], map: Map<string, string>): { value: string; length: number } | null {
+    for (let n = Math.min(4, tokens.length); n > 0; n--) {
+        const value = map.get(aliasKey(tokens.slice(0, n).join(' ')));
+        if (value) return { value, length: n };
+    }
+    return null;
+}
+
+function resolveBrand(catalog: Catalog, raw: string): string {
+    const direct = catalog.brands.get(aliasKey(raw));
+    if (direct) return direct;
+
+    // OLX brands look like "VW - VOLKSWAGEN": try each side
+    const parts = raw.split(/\s+-\s+|\//).map(part => part.trim()).filter(Boolean);
+    for (const part of parts) {
+        const brand = catalog.brands.get(aliasKey(part));
+        if (brand) return brand;
+    }
+
+    return (parts[parts.length - 1] || raw.trim()).split(/\s+/).map(tidyWord).join(' ');
+}
+
+/**
+ * Canonical brand, "Brand Model" and version of an ad. Brand words repeated at
+ * the start of the model ("VW Gol", "VW - VOLKSWAGEN GOL") are dropped, a missing
+ * brand is inferred from the model, and a model the catalog does not know is cut
+ * at its first spec word.
+ */
+export function normalizeVehicle(
+    catalog: Catalog,
+    raw: { brand: string | null; model: string | null; version: string | null }
+): NormalizedVehicle {
+    let brand = raw.brand ? resolveBrand(catalog, raw.brand) : null;
+    let tokens = (raw.model || '').split(/\s+/).filter(token => aliasKey(token) !== '');
+
+    // Drop leading brand words (also infers the brand when the ad had none)
+    const rawBrandWords = raw.brand ? aliasKey(raw.brand).split(' ') : [];
+    while (tokens.length > 0) {
+        const match = matchPrefix(tokens, catalog.brands);
+        if (match && (!brand || match.value === brand)) {
+            brand = match.value;
+            tokens = tokens.slice(match.length);
+        } else if (rawBrandWords.includes(aliasKey(tokens[0]))) {
+            tokens = tokens.slice(1);
+        } else {
+            break;
+        }
+    }
+
+    let model: string | null = null;
+    const brandModels = brand ? catalog.models.get(brand) : undefined;
+    const known = brandModels ? matchPrefix(tokens, brandModels) : null;
+
+    if (known) {
+        model = known.value;
+    } else if (!brand) {
+        // A model name unique to one brand tells the brand
+        const owners = Array.from(catalog.models.entries())
+            .map(([owner, models]) => ({ owner, match: matchPrefix(tokens, models) }))
+            .filter(candidate => candidate.match);
+        if (owners.length === 1) {
+            brand = owners[0].owner;
+            model = owners[0].match!.value;
+        }
+    }
+
+    if (!model) {
+        const words: string[] = [];
+        for (const token of tokens) {
+            if (MODEL_SPEC_WORD.test(token) || words.length === 2) break;
+            words.push(tidyWord(token));
+        }
+        model = words.join(' ') || null;
+    }
+
+    let version = raw.version;
+    if (version && brand && model) {
+        version = catalog.versions.get(versionScope(brand, model))?.get(aliasKey(version)) || version;
+    }
+
+    return {
+        brand,
+        // A model that only repeated the brand groups under the brand itself
+        model: model ? [brand, model].filter(Boolean).join(' ') : raw.model ? brand : null,
+        version,
+    };
+}
+
+let cachedCatalog: { catalog: Catalog; loadedAt: number } | null = null;
+
+/**
+ * The catalog as lookup maps, cached per isolate
+ */
+export async function loadCatalog(env: Env): Promise<Catalog> {
+    if (cachedCatalog && Date.now() - cachedCatalog.loadedAt < CATALOG_CACHE_TTL) {
+        return cachedCatalog.catalog;
+    }
+
+    const { results } = await env.DB.prepare(`
+        SELECT e.kind, e.brand, e.model, e.name, a.alias
+        FROM catalog_aliases a
+        JOIN catalog_entries e ON e.id = a.entry_id
+        ORDER BY a.id
+    `).all<Pick<CatalogEntry, 'kind' | 'brand' | 'model' | 'name'> & { alias: string }>();
+
+    const catalog: Catalog = { brands: new Map(), models: new Map(), versions: new Map() };
+    const scoped = (maps: Map<string, Map<string, string>>, scope: string) => {
+        if (!maps.has(scope)) maps.set(scope, new Map());
+        return maps.get(scope)!;
+    };
+
+    // The oldest alias wins when two entries claim the same one
+    for (const row of results) {
+        const target = row.kind === 'brand' ? catalog.brands
+            : row.kind === 'model' ? scoped(catalog.models, row.brand)
+            : scoped(catalog.versions, versionScope(row.brand, row.model));
+        if (!target.has(row.alias)) target.set(row.alias, row.name);
+    }
+
+    cachedCatalog = { catalog, loadedAt: Date.now() };
+    return catalog;
+}
+
+function invalidateCatalog(): void {
+    cachedCatalog = null;
+}
+
+export function isCatalogKind(value: string | null): value is CatalogKind {
+    return value === 'brand' || value === 'model' || value === 'version';
+}
+
+/**
+ * Every entry with its aliases, brands first
+ */
+export async function listCatalog(env: Env, kind?: CatalogKind): Promise<Array<CatalogEntry & { aliases: CatalogAlias[] }>> {
+    const { results: entries } = await env.DB.prepare(`
+        SELECT * FROM catalog_entries ${kind ? 'WHERE kind = ?' : ''}
+        ORDER BY CASE kind WHEN 'brand' THEN 0 WHEN 'model' THEN 1 ELSE 2 END, brand, model, name
+    `).bind(...(kind ? [kind] : [])).all<CatalogEntry>();
+
+    const { results: aliases } = await env.DB.prepare(
+        'SELECT * FROM catalog_aliases ORDER BY id'
+    ).all<CatalogAlias>();
+
+    const byEntry = new Map<number, CatalogAlias[]>();
+    for (const alias of aliases) {
+        if (!byEntry.has(alias.entry_id)) byEntry.set(alias.entry_id, []);
+        byEntry.get(alias.entry_id)!.push(alias);
+    }
+
+    return entries.map(entry => ({ ...entry, aliases: byEntry.get(entry.id) || [] }));
+}
+
+/**
+ * Validate a new entry. Returns an error message or null.
+ */
+export async function validateCatalogEntry(
+    env: Env,
+    entry: { kind: CatalogKind; name: string; brand?: string; model?: string }
+): Promise<string | null> {
+    if (!isCatalogKind(entry.kind)) return 'kind must be brand, model or version';
+    if (!entry.name?.trim() || !aliasKey(entry.name)) return 'name is required';
+    if (entry.kind !== 'brand' && !entry.brand) return 'brand is required for models and versions';
+    if (entry.kind === 'version' && !entry.model) return 'model is required for versions';
+
+    if (entry.kind !== 'brand') {
+        const parent = await env.DB.prepare(
+            `SELECT id FROM catalog_entries WHERE kind = ? AND brand = ? AND model = '' AND name = ?`
+        ).bind(
+            entry.kind === 'model' ? 'brand' : 'model',
+            entry.kind === 'model' ? '' : entry.brand,
+            entry.kind === 'model' ? entry.brand : entry.model
+        ).first();
+        if (!parent) return `Unknown ${entry.kind === 'model' ? 'brand' : 'model'}`;
+    }
+    return null;
+}
+
+/**
+ * Create a canonical entry; its own name and the given aliases become its aliases
+ */
+export async function createCatalogEntry(
+    env: Env,
+    entry: { kind: CatalogKind; name: string; brand?: string; model?: string; aliases?: string[] }
+): Promise<CatalogEntry | null> {
+    const name = entry.name.trim();
+    const brand = entry.kind === 'brand' ? '' : entry.brand!;
+    const model = entry.kind === 'version' ? entry.model! : '';
+
+    const created = await env.DB.prepare(`
+        INSERT INTO catalog_entries (kind, brand, model, name) VALUES (?, ?, ?, ?)
+        ON CONFLICT(kind, brand, model, name) DO NOTHING
+        RETURNING *
+    `).bind(entry.kind, brand, model, name).first<CatalogEntry>();
+    if (!created) return null;
+
+    const keys = new Set([name, ...(entry.aliases || [])].map(aliasKey).filter(Boolean));
+    const stmt = env.DB.prepare('INSERT OR IGNORE INTO catalog_aliases (entry_id, alias) VALUES (?, ?)');
+    await env.DB.batch(Array.from(keys).map(key => stmt.bind(created.id, key)));
+
+    invalidateCatalog();
+    return created;
+}
+
+/**
+ * Delete an entry with its aliases; deleting a brand or model also deletes
+ * the models/versions under it
+ */
+export async function deleteCatalogEntry(env: Env, id: number): Promise<boolean> {
+    const entry = await env.DB.prepare('SELECT * FROM catalog_entries WHERE id = ?').bind(id).first<CatalogEntry>();
+    if (!entry) return false;
+
+    const children = entry.kind === 'brand'
+        ? env.DB.prepare(`DELETE FROM catalog_entries WHERE kind != 'brand' AND brand = ?`).bind(entry.name)
+        : entry.kind === 'model'
+            ? env.DB.prepare(`DELETE FROM catalog_entries WHERE kind = 'version' AND brand = ? AND model = ?`).bind(entry.brand, entry.name)
+            : null;
+
+    await env.DB.batch([
+        ...(children ? [children] : []),
+        env.DB.prepare('DELETE FROM catalog_entries WHERE id = ?').bind(id),
+    ]);
+
+    invalidateCatalog();
+    return true;
+}
+
+/**
+ * Add an alias to an entry. Fails (returns an error message) when the alias
+ * already points at another entry of the same brand/model scope.
+ */
+export async function addCatalogAlias(env: Env, entryId: number, alias: string): Promise<CatalogAlias | string> {
+    const key = aliasKey(alias || '');
+    if (!key) return 'alias is required';
+
+    const entry = await env.DB.prepare('SELECT * FROM catalog_entries WHERE id = ?').bind(entryId).first<CatalogEntry>();
+    if (!entry) return 'Catalog entry not found';
+
+    const taken = await env.DB.prepare(`
+        SELECT e.name FROM catalog_aliases a
+        JOIN catalog_entries e ON e.id = a.entry_id
+        WHERE a.alias = ? AND e.kind = ? AND e.brand = ? AND e.model = ? AND e.id != ?
+    `).bind(key, entry.kind, entry.brand, entry.model, entryId).first<{ name: string }>();
+    if (taken) return `Alias already used by ${taken.name}`;
+
+    const created = await env.DB.prepare(`
+        INSERT INTO catalog_aliases (entry_id, alias) VALUES (?, ?)
+        ON CONFLICT(entry_id, alias) DO UPDATE SET alias = excluded.alias
+        RETURNING *
+    `).bind(entryId, key).first<CatalogAlias>();
+
+    invalidateCatalog();
+    return created!;
+}
+
+export async function deleteCatalogAlias(env: Env, id: number): Promise<boolean> {
+    const result = await env.DB.prepare('DELETE FROM catalog_aliases WHERE id = ?').bind(id).run();
+    invalidateCatalog();
+    return result.meta.changes > 0;
+}
+
+/**
+ * Insert CATALOG_SEED (entries that already exist are left alone)
+ */
+export async function seedCatalog(env: Env): Promise<number> {
+    const entryStmt = env.DB.prepare(
+        'INSERT OR IGNORE INTO catalog_entries (kind, brand, model, name) VALUES (?, ?, ?, ?)'
+    );
+    const aliasStmt = env.DB.prepare(`
+        INSERT OR IGNORE INTO catalog_aliases (entry_id, alias)
+        SELECT id, ? FROM catalog_entries WHERE kind = ? AND brand = ? AND model = '' AND name = ?
+    `);
+
+    const entries: D1PreparedStatement[] = [];
+    const aliases: D1PreparedStatement[] = [];
+
+    for (const seed of CATALOG_SEED) {
+        entries.push(entryStmt.bind('brand', '', '', seed.brand));
+        for (const key of new Set([seed.brand, ...seed.aliases].map(aliasKey))) {
+            aliases.push(aliasStmt.bind(key, 'brand', '', seed.brand));
+        }
+
+        for (const model of seed.models) {
+            const [name, ...modelAliases] = Array.isArray(model) ? model : [model];
+            entries.push(entryStmt.bind('model', seed.brand, '', name));
+            for (const key of new Set([name, ...modelAliases].map(aliasKey))) {
+                aliases.push(aliasStmt.bind(key, 'model', seed.brand, name));
+            }
+        }
+    }
+
+    await env.DB.batch(entries);
+    await env.DB.batch(aliases);
+    invalidateCatalog();
+
+    return entries.length;
+}
+
+/**
+ * Re-apply the catalog to the brand/model/version already stored for alerts,
+ * ads and the market snapshot (e.g. after adding aliases). Idempotent; with a
+ * deadline it may stop early and is simply run again.
+ */
+export async function renormalizeStoredAds(
+    env: Env,
+    options: { deadline?: number } = {}
+): Promise<{ tables: RenormalizeResult[]; complete: boolean }> {
+    const { extractModelFromSubject } = await import('./olx-fetcher');
+    const catalog = await loadCatalog(env);
+    const tables: RenormalizeResult[] = [];
+
+    for (const table of NORMALIZED_TABLES) {
+        const result: RenormalizeResult = { table, scanned: 0, updated: 0 };
+        tables.push(result);
+        const stmt = env.DB.prepare(`UPDATE ${table} SET brand = ?, model = ?, version = ? WHERE rowid = ?`);
+        let cursor = 0;
+
+        for (;;) {
+            if (options.deadline !== undefined && Date.now() >= options.deadline) {
+                return { tables, complete: false };
+            }
+
+            const { results } = await env.DB.prepare(`
+                SELECT rowid as row_id, brand, model, version, subject FROM ${table}
+                WHERE rowid > ? ORDER BY rowid LIMIT ?
+            `).bind(cursor, RENORMALIZE_BATCH_SIZE).all<{
+                row_id: number; brand: string | null; model: string | null; version: string | null; subject: string | null;
+            }>();
+            if (results.length === 0) break;
+
+            const batch: D1PreparedStatement[] = [];
+            for (const row of results) {
+                const model = row.model || (row.subject ? extractModelFromSubject(row.subject) : null);
+                const normalized = normalizeVehicle(catalog, { brand: row.brand, model, version: row.version });
+
+                if (normalized.brand !== row.brand || normalized.model !== row.model || normalized.version !== row.version) {
+                    batch.push(stmt.bind(normalized.brand, normalized.model, normalized.version, row.row_id));
+                }
+            }
+
+            if (batch.length > 0) {
+                await env.DB.batch(batch);
+            }
+            result.scanned += results.length;
+            result.updated += batch.length;
+            cursor = results[results.length - 1].row_id;
+        }
+    }
+
+    return { tables, complete: true };
+}
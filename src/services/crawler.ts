@@ -0,0 +1,131 @@
+/**
+ * Crawler Service
+ * Deep crawl of broad searches: walks the result pages after the quick scan's,
+ * a few per scheduled run, keeping the cursor in saved_searches.last_sp_scanned
+ */
+
+import { Env, Listing, SavedSearchRow } from '../types';
+import { FetchStats } from './olx-fetcher';
+import { countRetries, recordScanOutcome } from './fetch-policy';
+import { Catalog } from './catalog';
+
+// Upper bound of pages crawled by a single scan, whatever the spare budget
+export const CRAWL_PAGES_PER_RUN = 10;
+
+export interface CrawlResult {
+    listings: Listing[];
+    requests_count: number;
+    cursor: number;       // last_sp_scanned after this step
+    reset: boolean;       // The cycle restarted because page 1 moved too much
+}
+
+/**
+ * Cursor position after a crawl step: back to 0 when the end of the results was
+ * reached (next cycle) or pagination looped, unchanged after an error (retried
+ * next run), otherwise the last page read.
+ */
+export function nextCrawlCursor(cursor: number, stats: Pick<FetchStats, 'stop_reason' | 'last_page'>): number {
+    switch (stats.stop_reason) {
+        case 'completed':
+        case 'empty':
+        case 'loop':
+            return 0;
+        case 'error':
+            return cursor;
+        default:
+            return stats.last_page || cursor;
+    }
+}
+
+async function logCrawl(env: Env, searchId: string, stats: FetchStats): Promise<void> {
+    try {
+        await env.DB.prepare(`
+            INSERT INTO execution_logs
+            (search_id, mode, sp_min, sp_max, listings_count, new_listings_count, first_list_id, stop_reason, fetch_strategy, duration_ms, requests_count, retries_count, fetch_decisions, error_message, created_at)
+            VALUES (?, 'crawl', ?, ?, ?, 0, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+        `).bind(
+            searchId,
+            stats.sp_min,
+            stats.sp_max,
+            stats.listings.length,
+            stats.first_list_id,
+            stats.stop_reason,
+            stats.strategy,
+            stats.duration_ms,
+            stats.requests_count,
+            countRetries(stats.decisions),
+            stats.decisions.length > 0 ? JSON.stringify(stats.decisions) : null,
+            stats.error_message || null
+        ).run();
+    } catch (err) {
+        console.error('Failed to log crawl stats:', err);
+    }
+}
+
+/**
+ * Continue the deep crawl of a search after its quick scan.
+ *
+ * Only runs when the quick scan hit its page limit (there is more to read).
+ * A cycle starts right after the quick scan pages and records page 1's first
+ * list_id as its anchor; if that ad is no longer within the quick scan pages,
+ * so many new ads arrived that the cursor points at shifted content, and
+ * the cycle starts over.
+ */
+export async function crawlSearch(
+    env: Env,
+    search: SavedSearchRow,
+    quick: FetchStats,
+    options: { maxPages: number; deadline?: number; catalog?: Catalog }
+): Promise<CrawlResult> {
+    const { fetchAllPages, MAX_PAGES } = await import('./olx-fetcher');
+    const idle: CrawlResult = { listings: [], requests_count: 0, cursor: search.last_sp_scanned || 0, reset: false };
+
+    if (!search.crawl_enabled) return idle;
+
+    // The quick scan already saw everything: nothing deeper to walk
+    if (quick.stop_reason === 'completed' || quick.stop_reason === 'empty') {
+        if (idle.cursor > 0) {
+            await saveCursor(env, search.id, 0, null);
+        }
+        return { ...idle, cursor: 0 };
+    }
+    if (quick.stop_reason !== 'limit' || options.maxPages <= 0) return idle;
+
+    let cursor = idle.cursor;
+    let anchor = search.crawl_anchor_id;
+    let reset = false;
+
+    if (cursor > 0 && anchor && !quick.listings.some(l => l.list_id === anchor)) {
+        console.log(`Crawl of ${search.name}: anchor ${anchor} left the first ${MAX_PAGES} pages, restarting cycle`);
+        cursor = 0;
+        reset = true;
+    }
+    if (cursor === 0) {
+        anchor = quick.first_list_id;
+    }
+
+    const stats = await fetchAllPages(search.human_url, search.id, options.maxPages, {
+        startPage: Math.max(cursor, MAX_PAGES) + 1,
+        deadline: options.deadline,
+        catalog: options.catalog,
+    });
+    await recordScanOutcome(env, stats);
+    await logCrawl(env, search.id, stats);
+
+    const next = nextCrawlCursor(cursor, stats);
+    await saveCursor(env, search.id, next, next === 0 ? null : anchor);
+    console.log(`Crawl of ${search.name}: pages ${stats.sp_min}-${stats.sp_max} (${stats.stop_reason}), ${stats.listings.length} listings, cursor ${cursor} -> ${next}`);
+
+    return {
+        listings: stats.listings,
+        requests_count: stats.requests_count,
+        cursor: next,
+        reset,
+    };
+}
+
+async function saveCursor(env: Env, searchId: string, cursor: number, anchor: string | null): Promise<void> {
+    await env.DB.prepare(
+        'UPDATE saved_searches SET last_sp_scanned = ?, crawl_anchor_id = ? WHERE id = ?'
+    ).bind(cursor, anchor, searchId).run();
+}
@@ -3,11 +3,21 @@
  * Detects new listings and manages alerts
  */
 
-import { Env, Listing, Alert, SavedSearchRow } from '../types';
+import { Env, Listing, Alert, SavedSearchRow, ExecutionLog } from '../types';
+import { PriceChange } from './price-history';
+import { AD_LISTING_COLUMNS, adPresenceStatements, upsertAds } from './ads';
+import { RepostMatch, findReposts, linkReposts } from './reposts';
+import { FetchDecision } from './fetch-policy';
 
 // Maximum seen_ids per search (cap to prevent unlimited growth)
 const SEEN_IDS_CAP = 2000;
 
+// Consecutive covering scans an ad must be missing from before it counts as removed
+const REMOVAL_MISS_THRESHOLD = 3;
+
+// D1 limits bound parameters per statement, so IN lists are chunked
+const UPDATE_CHUNK_SIZE = 90;
+
 /**
  * Get all seen IDs for a search
  */
@@ -91,63 +101,299 @@ export function applyModelFilters(
     return filtered;
 }
 
+// Alerts belong to the owner of their search
+type AlertOwner = Pick<SavedSearchRow, 'id' | 'user_id'>;
+
+// Listing fields copied onto every alert row (same as the canonical ad)
+const ALERT_LISTING_COLUMNS = AD_LISTING_COLUMNS;
+
+function listingValues(listing: Listing): unknown[] {
+    return ALERT_LISTING_COLUMNS.map(column => listing[column]);
+}
+
+function buildAlert(search: AlertOwner, listing: Listing, now: string, fields: Partial<Alert> = {}): Alert {
+    const { date_ts, collected_at, ...listingFields } = listing;
+
+    return {
+        ...listingFields,
+        id: 0, // Will be set by DB
+        search_id: search.id,
+        user_id: search.user_id,
+        status: 'new',
+        alert_type: 'new',
+        previous_price: null,
+        last_seen_at: now,
+        missed_scans: 0,
+        removed_at: null,
+        repost_of: null,
+        repost_count: 0,
+        original_price_cents: null,
+        description: null,
+        photos: null,
+        optionals: null,
+        seller_type: null,
+        phone_verified: null,
+        enriched_at: null,
+        created_at: now,
+        ...fields,
+    };
+}
+
 /**
- * Create alerts for new listings
+ * Create alerts for new listings, flagging the ones that are reposts of an earlier ad
  */
 export async function createAlerts(
     env: Env,
-    searchId: string,
-    newListings: Listing[]
+    search: AlertOwner,
+    newListings: Listing[],
+    reposts: Map<string, RepostMatch> = new Map()
 ): Promise<Alert[]> {
     if (newListings.length === 0) return [];
 
-    const alerts: Alert[] = [];
     const now = new Date().toISOString();
+    const placeholders = ALERT_LISTING_COLUMNS.map(() => '?').join(', ');
 
     const insertStmt = env.DB.prepare(`
-    INSERT INTO alerts (search_id, list_id, subject, price, municipality, neighbourhood, ad_url, brand, model, thumbnail_url, mileage, status, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'new', ?)
+    INSERT INTO alerts (search_id, user_id, ${ALERT_LISTING_COLUMNS.join(', ')}, status, repost_of, repost_count, original_price_cents, last_seen_at, created_at)
+    VALUES (?, ?, ${placeholders}, 'new', ?, ?, ?, ?, ?)
   `);
 
-    const batch = newListings.map(listing => {
-        const alert: Alert = {
-            id: 0, // Will be set by DB
-            search_id: searchId,
-            list_id: listing.list_id,
-            subject: listing.subject,
-            price: listing.price,
-            municipality: listing.municipality,
-            neighbourhood: listing.neighbourhood,
-            ad_url: listing.ad_url,
-            model: listing.model,
-            thumbnail_url: listing.thumbnail_url,
-            mileage: listing.mileage,
-            status: 'new',
-            created_at: now,
-        };
-        alerts.push(alert);
-
-        return insertStmt.bind(
-            searchId,
-            listing.list_id,
-            listing.subject,
-            listing.price,
-            listing.municipality,
-            listing.neighbourhood,
-            listing.ad_url,
-            listing.brand,
-            listing.model,
-            listing.thumbnail_url,
-            listing.mileage,
+    const repostFields = (listing: Listing): Partial<Alert> => {
+        const match = reposts.get(listing.list_id);
+        return match
+            ? { repost_of: match.repost_of, repost_count: match.repost_count, original_price_cents: match.original_price_cents }
+            : {};
+    };
+
+    const alerts = newListings.map(listing => buildAlert(search, listing, now, repostFields(listing)));
+    const batch = alerts.map((alert, i) =>
+        insertStmt.bind(
+            search.id,
+            search.user_id,
+            ...listingValues(newListings[i]),
+            alert.repost_of,
+            alert.repost_count,
+            alert.original_price_cents,
+            now,
             now
-        );
+        )
+    );
+
+    const results = await env.DB.batch(batch);
+    results.forEach((result, i) => {
+        alerts[i].id = Number(result.meta.last_row_id) || 0;
     });
+    await applyPendingStatuses(env, search.id, alerts);
+
+    return alerts;
+}
+
+/**
+ * Give just created alerts the status a backup import left for their ad
+ * (see backup), consuming it. The alerts are updated in place.
+ */
+async function applyPendingStatuses(env: Env, searchId: string, alerts: Alert[]): Promise<void> {
+    const pending = new Map<string, Alert['status']>();
+    for (let i = 0; i < alerts.length; i += UPDATE_CHUNK_SIZE) {
+        const chunk = alerts.slice(i, i + UPDATE_CHUNK_SIZE).map(a => a.list_id);
+        const { results } = await env.DB.prepare(
+            `SELECT list_id, status FROM pending_alert_statuses WHERE search_id = ? AND list_id IN (${chunk.map(() => '?').join(', ')})`
+        ).bind(searchId, ...chunk).all<{ list_id: string; status: Alert['status'] }>();
+        results.forEach(row => pending.set(row.list_id, row.status));
+    }
+    if (pending.size === 0) return;
+
+    const updateStmt = env.DB.prepare('UPDATE alerts SET status = ? WHERE search_id = ? AND list_id = ?');
+    const deleteStmt = env.DB.prepare('DELETE FROM pending_alert_statuses WHERE search_id = ? AND list_id = ?');
+    await env.DB.batch(Array.from(pending.entries()).flatMap(([listId, status]) => [
+        updateStmt.bind(status, searchId, listId),
+        deleteStmt.bind(searchId, listId),
+    ]));
+
+    for (const alert of alerts) {
+        alert.status = pending.get(alert.list_id) ?? alert.status;
+    }
+}
+
+/**
+ * Pick listings whose price went down since the last observation
+ */
+export function computePriceDrops(
+    currentListings: Listing[],
+    changes: PriceChange[]
+): Array<{ listing: Listing; change: PriceChange }> {
+    const dropsById = new Map(
+        changes.filter(c => c.new_value < c.old_value).map(c => [c.list_id, c])
+    );
+
+    return currentListings
+        .filter(listing => dropsById.has(listing.list_id))
+        .map(listing => ({ listing, change: dropsById.get(listing.list_id)! }));
+}
+
+/**
+ * Turn the existing alert of each ad into a price_drop alert (one row per ad,
+ * so aggregations never double-count). Ads without an alert get a new row.
+ * The status the user set (favorite, muted...) is kept, and returned on the alerts.
+ */
+export async function createPriceDropAlerts(
+    env: Env,
+    search: AlertOwner,
+    drops: Array<{ listing: Listing; change: PriceChange }>
+): Promise<Alert[]> {
+    if (drops.length === 0) return [];
+
+    const searchId = search.id;
+    const now = new Date().toISOString();
+    const placeholders = ALERT_LISTING_COLUMNS.map(() => '?').join(', ');
+
+    const updateStmt = env.DB.prepare(`
+    UPDATE alerts SET price = ?, price_cents = ?, previous_price = ?, alert_type = 'price_drop'
+    WHERE search_id = ? AND list_id = ?
+  `);
+    const insertStmt = env.DB.prepare(`
+    INSERT INTO alerts (search_id, user_id, ${ALERT_LISTING_COLUMNS.join(', ')}, status, alert_type, previous_price, last_seen_at, created_at)
+    SELECT ?, ?, ${placeholders}, 'new', 'price_drop', ?, ?, ?
+    WHERE NOT EXISTS (SELECT 1 FROM alerts WHERE search_id = ? AND list_id = ?)
+  `);
+
+    const alerts = drops.map(({ listing, change }) =>
+        buildAlert(search, listing, now, { alert_type: 'price_drop', previous_price: change.old_price })
+    );
+    const batch = drops.flatMap(({ listing, change }) => [
+        updateStmt.bind(listing.price, listing.price_cents, change.old_price, searchId, listing.list_id),
+        insertStmt.bind(
+            searchId,
+            search.user_id,
+            ...listingValues(listing),
+            change.old_price,
+            now,
+            now,
+            searchId,
+            listing.list_id
+        ),
+    ]);
 
     await env.DB.batch(batch);
+    await applyPendingStatuses(env, searchId, alerts);
+
+    // Resolve the row id and status of each ad (updated in place or just inserted)
+    const rowByListId = new Map<string, { id: number; status: Alert['status'] }>();
+    for (let i = 0; i < alerts.length; i += UPDATE_CHUNK_SIZE) {
+        const chunk = alerts.slice(i, i + UPDATE_CHUNK_SIZE).map(a => a.list_id);
+        const { results: rows } = await env.DB.prepare(
+            `SELECT id, list_id, status FROM alerts WHERE search_id = ? AND list_id IN (${chunk.map(() => '?').join(', ')})`
+        ).bind(searchId, ...chunk).all<{ id: number; list_id: string; status: Alert['status'] }>();
+        rows.forEach(r => rowByListId.set(r.list_id, { id: r.id, status: r.status }));
+    }
+    for (const alert of alerts) {
+        const row = rowByListId.get(alert.list_id);
+        alert.id = row?.id || 0;
+        alert.status = row?.status || 'new';
+    }
 
     return alerts;
 }
 
+/**
+ * Pick active alerts that should count as missing from this scan.
+ *
+ * fetchAllPages only reads the first pages, so when the scan stopped at the
+ * page limit an older ad may simply have been pushed past the last page.
+ * In that case only ads newer than the oldest ad we did see are candidates,
+ * since OLX lists the most recent ads first.
+ */
+export function selectMissingAlerts(
+    activeAlerts: Array<{ list_id: string; created_at: string }>,
+    presentIds: Set<string>,
+    fullCoverage: boolean
+): string[] {
+    const present = activeAlerts.filter(a => presentIds.has(a.list_id));
+    const absent = activeAlerts.filter(a => !presentIds.has(a.list_id));
+
+    if (fullCoverage) return absent.map(a => a.list_id);
+    if (present.length === 0) return [];
+
+    const windowStart = present.reduce(
+        (oldest, a) => (a.created_at < oldest ? a.created_at : oldest),
+        present[0].created_at
+    );
+
+    return absent.filter(a => a.created_at > windowStart).map(a => a.list_id);
+}
+
+/**
+ * Refresh last_seen_at of present ads and mark ads missing for
+ * REMOVAL_MISS_THRESHOLD consecutive scans as removed.
+ * Crawled ads (deeper pages, read in cycles) count as present, but the pages
+ * they come from do not decide what is missing.
+ * Returns the number of alerts newly marked as removed.
+ */
+export async function detectRemovals(
+    env: Env,
+    searchId: string,
+    listings: Listing[],
+    stopReason: ExecutionLog['stop_reason'],
+    crawledListings: Listing[] = []
+): Promise<number> {
+    // Only healthy scans say anything about what is gone
+    if (stopReason !== 'completed' && stopReason !== 'limit') return 0;
+    if (listings.length === 0) return 0;
+
+    const now = new Date().toISOString();
+    const crawledIds = new Set(crawledListings.map(l => l.list_id));
+    const presentIds = new Set([...listings.map(l => l.list_id), ...crawledIds]);
+
+    const { results: activeAlerts } = await env.DB.prepare(
+        'SELECT list_id, created_at, missed_scans FROM alerts WHERE search_id = ? AND removed_at IS NULL'
+    ).bind(searchId).all<{ list_id: string; created_at: string; missed_scans: number }>();
+
+    // The window of the quick scan pages decides; crawled ads are never missing
+    const missing = selectMissingAlerts(activeAlerts, new Set(listings.map(l => l.list_id)), stopReason === 'completed')
+        .filter(listId => !crawledIds.has(listId));
+
+    const batch: D1PreparedStatement[] = [];
+    const presentList = Array.from(presentIds);
+    for (let i = 0; i < presentList.length; i += UPDATE_CHUNK_SIZE) {
+        const chunk = presentList.slice(i, i + UPDATE_CHUNK_SIZE);
+        batch.push(env.DB.prepare(`
+            UPDATE alerts SET last_seen_at = ?, missed_scans = 0, removed_at = NULL
+            WHERE search_id = ? AND list_id IN (${chunk.map(() => '?').join(', ')})
+        `).bind(now, searchId, ...chunk));
+    }
+    for (let i = 0; i < missing.length; i += UPDATE_CHUNK_SIZE) {
+        const chunk = missing.slice(i, i + UPDATE_CHUNK_SIZE);
+        batch.push(env.DB.prepare(`
+            UPDATE alerts SET
+                missed_scans = missed_scans + 1,
+                removed_at = CASE WHEN missed_scans + 1 >= ? THEN COALESCE(last_seen_at, ?) ELSE NULL END
+            WHERE search_id = ? AND removed_at IS NULL AND list_id IN (${chunk.map(() => '?').join(', ')})
+        `).bind(REMOVAL_MISS_THRESHOLD, now, searchId, ...chunk));
+    }
+    batch.push(...adPresenceStatements(env, presentList, missing, now));
+
+    if (batch.length === 0) return 0;
+    await env.DB.batch(batch);
+
+    const missingSet = new Set(missing);
+    return activeAlerts.filter(a =>
+        missingSet.has(a.list_id) && (a.missed_scans || 0) + 1 >= REMOVAL_MISS_THRESHOLD
+    ).length;
+}
+
+export const ALERT_STATUSES: Alert['status'][] = ['new', 'seen', 'opened', 'muted', 'favorite'];
+
+/**
+ * Set the status of an alert. Returns false if the alert does not exist.
+ */
+export async function updateAlertStatus(env: Env, id: string | number, status: Alert['status']): Promise<boolean> {
+    const result = await env.DB.prepare(
+        'UPDATE alerts SET status = ? WHERE id = ?'
+    ).bind(status, id).run();
+
+    return result.meta.changes > 0;
+}
+
 /**
  * Update search's last_checked_at timestamp
  */
@@ -158,27 +404,70 @@ export async function updateSearchTimestamp(env: Env, searchId: string): Promise
 }
 
 /**
- * Main scan function: orchestrates fetching, diffing, and alert creation
+ * Log a scan skipped because the circuit breaker is open
+ */
+async function logBlockedScan(env: Env, searchId: string, openUntil: string): Promise<void> {
+    const decision: FetchDecision = {
+        url: '',
+        attempt: 0,
+        status: 0,
+        action: 'circuit_open',
+        delay_ms: Math.max(0, Date.parse(openUntil) - Date.now()),
+        reason: `scanning paused until ${openUntil}`,
+    };
+
+    try {
+        await env.DB.prepare(`
+            INSERT INTO execution_logs
+            (search_id, sp_min, sp_max, listings_count, new_listings_count, stop_reason, duration_ms, requests_count, fetch_decisions, created_at)
+            VALUES (?, 0, 0, 0, 0, 'blocked', 0, 0, ?, datetime('now'))
+        `).bind(searchId, JSON.stringify([decision])).run();
+    } catch (err) {
+        console.error('Failed to log blocked scan:', err);
+    }
+}
+
+/**
+ * Main scan function: orchestrates fetching, diffing, and alert creation.
+ *
+ * With options.crawlPages, crawl-enabled searches also read that many deeper
+ * pages (see crawler). Crawled ads feed the market snapshot and price tracking,
+ * but never create "new" alerts: page 1 is where fresh ads show up.
  */
 export async function scanSearch(
     env: Env,
-    search: SavedSearchRow
-): Promise<{ newCount: number; totalScanned: number; alerts: Alert[] }> {
+    search: SavedSearchRow,
+    options: { crawlPages?: number; enrichAds?: number; deadline?: number } = {}
+): Promise<{ newCount: number; priceDropCount: number; removedCount: number; totalScanned: number; crawledCount: number; alerts: Alert[]; requestsCount: number }> {
     // Import dynamically to avoid circular deps
     const { fetchAllPages } = await import('./olx-fetcher');
+    const { recordPriceObservations } = await import('./price-history');
+    const { parseSearchRules, applySearchRules } = await import('./rules');
 
     console.log(`Starting scan for search: ${search.name} (${search.id})`);
 
+    // While OLX is blocking us, scanning is paused (the search stays due)
+    const { getCircuitState, isCircuitOpen, recordScanOutcome, countRetries } = await import('./fetch-policy');
+    const circuit = await getCircuitState(env);
+    if (isCircuitOpen(circuit)) {
+        console.warn(`Circuit open until ${circuit.open_until}, skipping ${search.name}`);
+        await logBlockedScan(env, search.id, circuit.open_until!);
+        return { newCount: 0, priceDropCount: 0, removedCount: 0, totalScanned: 0, crawledCount: 0, alerts: [], requestsCount: 0 };
+    }
+
     // Fetch current listings with reliability stats
-    const stats = await fetchAllPages(search.human_url, search.id);
+    const { loadCatalog } = await import('./catalog');
+    const catalog = await loadCatalog(env);
+    const stats = await fetchAllPages(search.human_url, search.id, undefined, { catalog });
     const { listings, sp_min, sp_max, stop_reason, duration_ms, requests_count, first_list_id, error_message } = stats;
+    await recordScanOutcome(env, stats);
 
     // Log execution stats
     try {
         await env.DB.prepare(`
             INSERT INTO execution_logs 
-            (search_id, sp_min, sp_max, listings_count, new_listings_count, first_list_id, stop_reason, duration_ms, requests_count, error_message, created_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+            (search_id, sp_min, sp_max, listings_count, new_listings_count, first_list_id, stop_reason, fetch_strategy, duration_ms, requests_count, retries_count, fetch_decisions, error_message, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
         `).bind(
             search.id,
             sp_min,
@@ -187,8 +476,11 @@ export async function scanSearch(
             0, // Placeholder, updated below
             first_list_id,
             stop_reason,
+            stats.strategy,
             duration_ms,
             requests_count,
+            countRetries(stats.decisions),
+            stats.decisions.length > 0 ? JSON.stringify(stats.decisions) : null,
             error_message || null
         ).run();
     } catch (err) {
@@ -198,7 +490,7 @@ export async function scanSearch(
     if (listings.length === 0) {
         console.log('No listings found, updating timestamp only');
         await updateSearchTimestamp(env, search.id);
-        return { newCount: 0, totalScanned: 0, alerts: [] };
+        return { newCount: 0, priceDropCount: 0, removedCount: 0, totalScanned: 0, crawledCount: 0, alerts: [], requestsCount: requests_count };
     }
 
     // Get seen IDs
@@ -212,6 +504,10 @@ export async function scanSearch(
     const blacklist = JSON.parse(search.model_blacklist || '[]');
     newListings = applyModelFilters(newListings, whitelist, blacklist);
 
+    // Apply rule filters (price, mileage, year, municipality, keywords, ignore lists)
+    const rules = parseSearchRules(search);
+    newListings = applySearchRules(newListings, rules);
+
     console.log(`Found ${newListings.length} new listings (after filters)`);
 
     // Update log with actual new count
@@ -228,15 +524,83 @@ export async function scanSearch(
     const allIds = listings.map(l => l.list_id);
     await addSeenIds(env, search.id, allIds);
 
-    // Create alerts for new listings
-    const alerts = await createAlerts(env, search.id, newListings);
+    // Deep crawl (crawl-enabled searches only) continues after the quick scan pages
+    const { crawlSearch } = await import('./crawler');
+    const crawl = await crawlSearch(env, search, stats, {
+        maxPages: options.crawlPages ?? 0,
+        deadline: options.deadline,
+        catalog,
+    });
+    const quickIds = new Set(allIds);
+    const marketListings = [...listings, ...crawl.listings.filter(l => !quickIds.has(l.list_id))];
+
+    // Snapshot the whole market seen by this search (before filters), for medians and model stats
+    const { recordMarketSnapshot } = await import('./market');
+    await recordMarketSnapshot(env, search.id, marketListings);
+
+    // Create alerts for new listings (the ad itself is shared by all searches).
+    // Reposts are linked before prices are recorded, so they inherit the history.
+    const reposts = await findReposts(env, search.id, newListings, marketListings.map(l => l.list_id));
+    await upsertAds(env, newListings);
+    await linkReposts(env, Array.from(reposts.values()));
+    const alerts = await createAlerts(env, search, newListings, reposts);
+
+    if (reposts.size > 0) {
+        console.log(`Found ${reposts.size} reposted listings`);
+    }
+
+    // Record prices and alert on drops of ads we already knew
+    // (a repost's price change is already shown on its new alert)
+    const priceChanges = await recordPriceObservations(env, search.id, marketListings);
+    const dropCandidates = computePriceDrops(marketListings, priceChanges)
+        .filter(d => !reposts.has(d.listing.list_id));
+    const allowed = new Set(
+        applySearchRules(
+            applyModelFilters(dropCandidates.map(d => d.listing), whitelist, blacklist),
+            rules
+        ).map(l => l.list_id)
+    );
+    const allowedDrops = dropCandidates.filter(d => allowed.has(d.listing.list_id));
+    await upsertAds(env, allowedDrops.map(d => d.listing));
+    const priceDropAlerts = await createPriceDropAlerts(env, search, allowedDrops);
+    alerts.push(...priceDropAlerts);
+
+    if (priceDropAlerts.length > 0) {
+        console.log(`Found ${priceDropAlerts.length} price drops`);
+    }
+
+    // Mark ads that stopped appearing as removed (sold/delisted)
+    const removedCount = await detectRemovals(env, search.id, listings, stop_reason, crawl.listings);
+    if (removedCount > 0) {
+        console.log(`Marked ${removedCount} listings as removed`);
+    }
+
+    // Detail pages of the new alerts (opt-in per search), before they are notified
+    let enrichRequests = 0;
+    if (search.enrich_enabled) {
+        const { enrichAlerts } = await import('./ad-details');
+        const enrichment = await enrichAlerts(env, alerts, { maxAds: options.enrichAds, deadline: options.deadline });
+        enrichRequests = enrichment.requests_count;
+        if (enrichment.enriched > 0) {
+            console.log(`Enriched ${enrichment.enriched} alerts with their detail pages`);
+        }
+    }
+
+    // Notify server-side channels (webhooks...) so cron scans reach someone too.
+    // Muted ads still get their price drop recorded, but are not notified.
+    const { dispatchAlertNotifications } = await import('./notifier');
+    await dispatchAlertNotifications(env, search, alerts.filter(alert => alert.status !== 'muted'));
 
     // Update timestamp
     await updateSearchTimestamp(env, search.id);
 
     return {
         newCount: newListings.length,
+        priceDropCount: priceDropAlerts.length,
+        removedCount,
         totalScanned: listings.length,
         alerts,
+        crawledCount: crawl.listings.length,
+        requestsCount: requests_count + crawl.requests_count + enrichRequests,
     };
 }
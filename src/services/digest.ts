@@ -0,0 +1,387 @@
+/**
+ * Digest Service
+ * Builds a per-search summary of a period (new ads, price drops, top opportunities,
+ * model volume changes), renders it as HTML/text and hands it to pluggable senders
+ */
+
+import { Env, Alert, SavedSearchRow, ScoredOpportunity, TelegramChat, User } from '../types';
+import { parseDbTimestamp } from './scheduler';
+import { ACCESSIBLE_SEARCHES_SQL } from './sharing';
+
+export type DigestPeriod = 'day' | 'week';
+
+const PERIOD_MS: Record<DigestPeriod, number> = {
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Items listed per section
+const SECTION_LIMIT = 5;
+
+export interface DigestPriceDrop {
+    list_id: string;
+    subject: string | null;
+    ad_url: string | null;
+    price: string | null;
+    previous_price: string | null;
+    pct_drop: number;
+}
+
+export interface DigestModelChange {
+    model: string;
+    current: number;
+    previous: number;
+    delta: number;
+}
+
+export interface DigestSection {
+    search: { id: string; name: string };
+    new_count: number;
+    new_alerts: Alert[];
+    price_drops: DigestPriceDrop[];
+    top_opportunities: ScoredOpportunity[];
+    model_changes: DigestModelChange[];
+}
+
+export interface Digest {
+    user: Pick<User, 'id' | 'name' | 'email'> | null;
+    period: DigestPeriod;
+    since: string;
+    until: string;
+    sections: DigestSection[];
+}
+
+export interface RenderedDigest {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+/**
+ * A delivery channel for digests. Senders decide on their own whether they are configured.
+ */
+export interface DigestSender {
+    name: string;
+    isEnabled(env: Env): boolean;
+    send(env: Env, digest: Digest, rendered: RenderedDigest): Promise<void>;
+}
+
+export function isDigestPeriod(value: string | null): value is DigestPeriod {
+    return value === 'day' || value === 'week';
+}
+
+async function buildSection(env: Env, search: SavedSearchRow, since: string, until: string, previousSince: string): Promise<DigestSection> {
+    const { scoreOpportunities, parseWeights } = await import('./scoring');
+    const { getMarketSamples } = await import('./market');
+
+    const { results: alerts } = await env.DB.prepare(
+        'SELECT * FROM alerts WHERE search_id = ? ORDER BY created_at DESC'
+    ).bind(search.id).all<Alert>();
+
+    // created_at mixes ISO strings and SQLite's datetime('now') format, so it is compared parsed
+    const sinceTs = Date.parse(since);
+    const untilTs = Date.parse(until);
+    const previousSinceTs = Date.parse(previousSince);
+    const createdAt = new Map(alerts.map(a => [a.id, parseDbTimestamp(a.created_at) ?? 0]));
+    const inPeriod = (alert: Alert, from: number, to: number) => createdAt.get(alert.id)! >= from && createdAt.get(alert.id)! < to;
+
+    const newAlerts = alerts.filter(a => inPeriod(a, sinceTs, untilTs));
+
+    // Price drops recorded in the period: compare each new price row of the search
+    // with its previous one. Only ads that are alerts of the search are listed
+    // (the history also tracks market ads its filters leave out).
+    const { results: drops } = await env.DB.prepare(`
+        SELECT ph.list_id, ph.price, ph.price_value, prev.price as previous_price, prev.price_value as previous_value,
+               a.subject, a.model, a.ad_url
+        FROM price_history ph
+        JOIN price_history prev ON prev.id = (
+            SELECT MAX(id) FROM price_history WHERE search_id = ph.search_id AND list_id = ph.list_id AND id < ph.id
+        )
+        JOIN alerts a ON a.search_id = ph.search_id AND a.list_id = ph.list_id
+        WHERE ph.search_id = ? AND datetime(ph.first_seen_at) >= datetime(?) AND datetime(ph.first_seen_at) < datetime(?)
+          AND ph.price_value < prev.price_value
+    `).bind(search.id, since, until).all<{
+        list_id: string; price: string; price_value: number; previous_price: string; previous_value: number;
+        subject: string | null; model: string | null; ad_url: string | null;
+    }>();
+
+    const priceDrops = drops
+        .map(d => ({
+            list_id: d.list_id,
+            subject: d.subject || d.model,
+            ad_url: d.ad_url,
+            price: d.price,
+            previous_price: d.previous_price,
+            pct_drop: Math.round((1 - d.price_value / d.previous_value) * 100),
+        }))
+        .sort((a, b) => b.pct_drop - a.pct_drop)
+        .slice(0, SECTION_LIMIT);
+
+    const topOpportunities = scoreOpportunities(alerts, {
+        weights: parseWeights(search.opportunity_weights),
+        minGroupSize: search.min_group_size || 3,
+        market: await getMarketSamples(env, 'search_id = ?', [search.id]),
+        now: Date.parse(until),
+    }).slice(0, SECTION_LIMIT);
+
+    // Volume change per model: ads first seen in this period vs the one before
+    const counts = new Map<string, { current: number; previous: number }>();
+    for (const alert of alerts) {
+        const inCurrent = inPeriod(alert, sinceTs, untilTs);
+        const inPrevious = inPeriod(alert, previousSinceTs, sinceTs);
+        if (!inCurrent && !inPrevious) continue;
+
+        const model = alert.model || 'Desconhecido';
+        const entry = counts.get(model) || { current: 0, previous: 0 };
+        if (inCurrent) entry.current++;
+        else entry.previous++;
+        counts.set(model, entry);
+    }
+
+    const modelChanges = Array.from(counts.entries())
+        .map(([model, c]) => ({ model, current: c.current, previous: c.previous, delta: c.current - c.previous }))
+        .filter(c => c.delta !== 0)
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+        .slice(0, SECTION_LIMIT);
+
+    return {
+        search: { id: search.id, name: search.name },
+        new_count: newAlerts.length,
+        new_alerts: newAlerts.slice(0, SECTION_LIMIT),
+        price_drops: priceDrops,
+        top_opportunities: topOpportunities,
+        model_changes: modelChanges,
+    };
+}
+
+/**
+ * Build the digest of the period ending at `now` for the saved searches of a user
+ * (or every saved search when no user is given)
+ */
+export async function buildDigest(
+    env: Env,
+    period: DigestPeriod,
+    options: { user?: User; now?: number } = {}
+): Promise<Digest> {
+    const { user } = options;
+    const now = options.now ?? Date.now();
+    const until = new Date(now).toISOString();
+    const since = new Date(now - PERIOD_MS[period]).toISOString();
+    const previousSince = new Date(now - 2 * PERIOD_MS[period]).toISOString();
+
+    // A user's digest covers the searches shared with them too
+    const { results: searches } = user
+        ? await env.DB.prepare(
+            `SELECT * FROM saved_searches WHERE id IN ${ACCESSIBLE_SEARCHES_SQL} ORDER BY created_at DESC`
+        ).bind(user.id, user.id).all<SavedSearchRow>()
+        : await env.DB.prepare(
+            'SELECT * FROM saved_searches ORDER BY created_at DESC'
+        ).all<SavedSearchRow>();
+
+    const sections: DigestSection[] = [];
+    for (const search of searches) {
+        sections.push(await buildSection(env, search, since, until, previousSince));
+    }
+
+    return {
+        user: user ? { id: user.id, name: user.name, email: user.email } : null,
+        period,
+        since,
+        until,
+        sections,
+    };
+}
+
+export function isDigestEmpty(digest: Digest): boolean {
+    return digest.sections.every(s => s.new_count === 0 && s.price_drops.length === 0);
+}
+
+function escapeHtml(text: string | null): string {
+    return (text || '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function formatDelta(delta: number): string {
+    return delta > 0 ? `+${delta}` : String(delta);
+}
+
+function digestSubject(digest: Digest): string {
+    const total = digest.sections.reduce((sum, s) => sum + s.new_count, 0);
+    const label = digest.period === 'day' ? 'diário' : 'semanal';
+    return `OLX Car Finder — resumo ${label}: ${total} anúncios novos`;
+}
+
+/**
+ * Render the digest as a self-contained HTML document (inline styles, email friendly)
+ */
+export function renderDigestHtml(digest: Digest): string {
+    const sections = digest.sections.map(section => {
+        const link = (url: string | null, text: string | null) =>
+            url ? `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>` : escapeHtml(text);
+
+        const newAds = section.new_alerts.map(a =>
+            `<li>${link(a.ad_url, a.subject || a.model)} — ${escapeHtml(a.price)}</li>`
+        ).join('');
+        const drops = section.price_drops.map(d =>
+            `<li>${link(d.ad_url, d.subject)} — <s>${escapeHtml(d.previous_price)}</s> ${escapeHtml(d.price)} (−${d.pct_drop}%)</li>`
+        ).join('');
+        const opportunities = section.top_opportunities.map(o =>
+            `<li>${link(o.ad_url, o.subject || o.model)} — ${escapeHtml(o.price)} (${o.pctBelowMedian}% abaixo da mediana, score ${o.score})</li>`
+        ).join('');
+        const models = section.model_changes.map(m =>
+            `<li>${escapeHtml(m.model)}: ${m.current} (${formatDelta(m.delta)})</li>`
+        ).join('');
+
+        return `
+<h2 style="margin:24px 0 8px;font-size:18px;">${escapeHtml(section.search.name)}</h2>
+<p style="margin:0 0 8px;">${section.new_count} anúncios novos</p>
+${newAds ? `<h3 style="font-size:15px;">🆕 Novos</h3><ul>${newAds}</ul>` : ''}
+${drops ? `<h3 style="font-size:15px;">📉 Baixas de preço</h3><ul>${drops}</ul>` : ''}
+${opportunities ? `<h3 style="font-size:15px;">💎 Melhores oportunidades</h3><ul>${opportunities}</ul>` : ''}
+${models ? `<h3 style="font-size:15px;">📊 Variação de volume por modelo</h3><ul>${models}</ul>` : ''}`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head><meta charset="utf-8"><title>${escapeHtml(digestSubject(digest))}</title></head>
+<body style="font-family:Arial,sans-serif;color:#222;max-width:640px;margin:0 auto;padding:16px;">
+<h1 style="font-size:20px;">${escapeHtml(digestSubject(digest))}</h1>
+<p style="color:#666;">${digest.since.slice(0, 16).replace('T', ' ')} → ${digest.until.slice(0, 16).replace('T', ' ')} (UTC)</p>
+${sections}
+</body>
+</html>`;
+}
+
+/**
+ * Render the digest as plain text
+ */
+export function renderDigestText(digest: Digest): string {
+    const lines: string[] = [digestSubject(digest), `${digest.since} → ${digest.until}`, ''];
+
+    for (const section of digest.sections) {
+        lines.push(`== ${section.search.name} ==`, `${section.new_count} anúncios novos`);
+
+        if (section.new_alerts.length > 0) {
+            lines.push('', 'Novos:');
+            section.new_alerts.forEach(a => lines.push(`- ${a.subject || a.model} — ${a.price || '?'} ${a.ad_url}`));
+        }
+        if (section.price_drops.length > 0) {
+            lines.push('', 'Baixas de preço:');
+            section.price_drops.forEach(d => lines.push(`- ${d.subject} — ${d.previous_price} → ${d.price} (-${d.pct_drop}%) ${d.ad_url || ''}`));
+        }
+        if (section.top_opportunities.length > 0) {
+            lines.push('', 'Melhores oportunidades:');
+            section.top_opportunities.forEach(o => lines.push(`- ${o.subject || o.model} — ${o.price} (${o.pctBelowMedian}% abaixo da mediana) ${o.ad_url}`));
+        }
+        if (section.model_changes.length > 0) {
+            lines.push('', 'Variação por modelo:');
+            section.model_changes.forEach(m => lines.push(`- ${m.model}: ${m.current} (${formatDelta(m.delta)})`));
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+export function renderDigest(digest: Digest): RenderedDigest {
+    return {
+        subject: digestSubject(digest),
+        html: renderDigestHtml(digest),
+        text: renderDigestText(digest),
+    };
+}
+
+/**
+ * Posts { period, user, subject, html, text } to DIGEST_WEBHOOK_URL (e.g. an email relay
+ * that routes on user.email)
+ */
+const httpSender: DigestSender = {
+    name: 'http',
+    isEnabled: env => Boolean(env.DIGEST_WEBHOOK_URL),
+    async send(env, digest, rendered) {
+        const response = await fetch(env.DIGEST_WEBHOOK_URL!, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ period: digest.period, user: digest.user, ...rendered }),
+        });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+    },
+};
+
+/**
+ * Sends the plain-text digest to the Telegram chats registered on the user's searches
+ */
+const telegramSender: DigestSender = {
+    name: 'telegram',
+    isEnabled: env => Boolean(env.TELEGRAM_BOT_TOKEN),
+    async send(env, digest, rendered) {
+        const { callTelegram } = await import('./telegram');
+        const { results: chats } = digest.user
+            ? await env.DB.prepare(
+                'SELECT DISTINCT chat_id FROM telegram_chats WHERE search_id IN (SELECT id FROM saved_searches WHERE user_id = ?)'
+            ).bind(digest.user.id).all<Pick<TelegramChat, 'chat_id'>>()
+            : await env.DB.prepare(
+                'SELECT DISTINCT chat_id FROM telegram_chats'
+            ).all<Pick<TelegramChat, 'chat_id'>>();
+
+        // Telegram caps messages at 4096 characters
+        const text = rendered.text.length > 4000 ? `${rendered.text.slice(0, 4000)}\n…` : rendered.text;
+        for (const chat of chats) {
+            await callTelegram(env, 'sendMessage', { chat_id: chat.chat_id, text, disable_web_page_preview: true });
+        }
+    },
+};
+
+export const digestSenders: DigestSender[] = [httpSender, telegramSender];
+
+export interface DigestSendResult {
+    user_id: string;
+    sent: string[];
+    failed: string[];
+    empty: boolean;
+}
+
+/**
+ * Build a user's digest and deliver it through every enabled sender.
+ * Empty digests are not sent.
+ */
+export async function sendDigest(env: Env, period: DigestPeriod, user: User): Promise<DigestSendResult> {
+    const digest = await buildDigest(env, period, { user });
+    const result: DigestSendResult = { user_id: user.id, sent: [], failed: [], empty: isDigestEmpty(digest) };
+
+    if (result.empty) {
+        console.log(`Digest (${period}) of ${user.id} is empty, not sending`);
+        return result;
+    }
+
+    const rendered = renderDigest(digest);
+    for (const sender of digestSenders.filter(s => s.isEnabled(env))) {
+        try {
+            await sender.send(env, digest, rendered);
+            result.sent.push(sender.name);
+        } catch (error) {
+            console.error(`Digest sender ${sender.name} failed:`, error);
+            result.failed.push(sender.name);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Send the digest of every user (used by the digest crons)
+ */
+export async function sendAllDigests(env: Env, period: DigestPeriod): Promise<DigestSendResult[]> {
+    const { listUsers } = await import('./users');
+    const results: DigestSendResult[] = [];
+
+    for (const user of await listUsers(env)) {
+        results.push(await sendDigest(env, period, user));
+    }
+    return results;
+}
@@ -0,0 +1,115 @@
+/**
+ * Export Service
+ * Listings and opportunities as CSV, JSON Lines or XLSX, with numeric price,
+ * mileage and score columns so spreadsheets can sort and sum them
+ */
+
+import { ListingView, ScoredOpportunity } from '../types';
+import { XlsxCell, buildXlsx } from './xlsx';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+// Rows exported per request at most (XLSX is built in memory)
+export const MAX_EXPORT_ROWS = 20_000;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    jsonl: 'application/x-ndjson; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export interface ExportColumn<T> {
+    header: string;
+    value: (row: T) => XlsxCell;
+}
+
+const encoder = new TextEncoder();
+
+export const LISTING_EXPORT_COLUMNS: ExportColumn<ListingView>[] = [
+    { header: 'list_id', value: row => row.list_id },
+    { header: 'subject', value: row => row.subject },
+    { header: 'brand', value: row => row.brand },
+    { header: 'model', value: row => row.model },
+    { header: 'version', value: row => row.version },
+    { header: 'year', value: row => row.year },
+    { header: 'price', value: row => (row.price_cents ? row.price_cents / 100 : null) },
+    { header: 'mileage', value: row => row.mileage },
+    { header: 'fuel', value: row => row.fuel },
+    { header: 'gearbox', value: row => row.gearbox },
+    { header: 'municipality', value: row => row.municipality },
+    { header: 'neighbourhood', value: row => row.neighbourhood },
+    { header: 'status', value: row => row.status },
+    { header: 'created_at', value: row => row.created_at },
+    { header: 'reference_price', value: row => row.reference_price },
+    { header: 'pct_vs_reference', value: row => row.pct_vs_reference },
+    { header: 'ad_url', value: row => row.ad_url },
+];
+
+export const OPPORTUNITY_EXPORT_COLUMNS: ExportColumn<ScoredOpportunity>[] = [
+    // Listing columns without ad_url, which stays last
+    ...LISTING_EXPORT_COLUMNS.slice(0, -1),
+    { header: 'score', value: row => row.score },
+    { header: 'median', value: row => row.median },
+    { header: 'comparison', value: row => row.comparison },
+    { header: 'pct_below_median', value: row => row.pctBelowMedian },
+    { header: 'badges', value: row => row.badges.join(', ') },
+    { header: 'explanation', value: row => row.explanation },
+    { header: 'ad_url', value: row => row.ad_url },
+];
+
+export function isExportFormat(value: string | null): value is ExportFormat {
+    return value === 'csv' || value === 'jsonl' || value === 'xlsx';
+}
+
+function csvField(value: XlsxCell): string {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: XlsxCell[]): string {
+    return values.map(csvField).join(',') + '\r\n';
+}
+
+function jsonLine<T>(columns: ExportColumn<T>[], row: T): string {
+    return JSON.stringify(Object.fromEntries(columns.map(column => [column.header, column.value(row)]))) + '\n';
+}
+
+/**
+ * Stream the rows produced page by page as the given format. CSV and JSON Lines
+ * are written as pages arrive; XLSX is written once every page has been read.
+ * CSV starts with a BOM so Excel opens accents right.
+ */
+export function streamExport<T>(format: ExportFormat, columns: ExportColumn<T>[], pages: AsyncIterable<T[]> | Iterable<T[]>): ReadableStream<Uint8Array> {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+
+    const write = async () => {
+        const writer = writable.getWriter();
+        try {
+            const headers = columns.map(column => column.header);
+            const sheet: XlsxCell[][] = [headers];
+
+            if (format === 'csv') await writer.write(encoder.encode('\uFEFF' + csvLine(headers)));
+
+            for await (const rows of pages) {
+                if (format === 'xlsx') {
+                    sheet.push(...rows.map(row => columns.map(column => column.value(row))));
+                    continue;
+                }
+                const text = rows.map(row => format === 'csv'
+                    ? csvLine(columns.map(column => column.value(row)))
+                    : jsonLine(columns, row)).join('');
+                if (text) await writer.write(encoder.encode(text));
+            }
+
+            if (format === 'xlsx') await writer.write(buildXlsx(sheet));
+            await writer.close();
+        } catch (error) {
+            console.error('Export failed:', error);
+            await writer.abort(error);
+        }
+    };
+    write();
+
+    return readable;
+}
@@ -0,0 +1,247 @@
+/**
+ * Fetch Policy Service
+ * Every request to OLX goes through here: a throughput/concurrency limit shared by
+ * all scans of the isolate, retries with exponential backoff and jitter (honoring
+ * Retry-After), and a circuit breaker that pauses scanning while OLX blocks us
+ */
+
+import { Env } from '../types';
+import { getTransport } from './http-transport';
+
+// Throughput limit, shared by every search scanned in the same run
+const MIN_REQUEST_INTERVAL_MS = 500;
+const MAX_CONCURRENT_REQUESTS = 2;
+
+// Retries of 429/5xx/network errors
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_RETRY_WAIT_MS = 15_000; // Longer Retry-After values are not waited for
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const BLOCKED_STATUSES = new Set([403, 429]);
+
+// Circuit breaker: opens after this many consecutive blocked scans,
+// for a cooldown that doubles on each trip
+const CIRCUIT_ID = 'olx';
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_BASE_COOLDOWN_MS = 30 * 60 * 1000;
+const CIRCUIT_MAX_COOLDOWN_MS = 6 * 60 * 60 * 1000;
+
+export interface FetchDecision {
+    url: string;
+    attempt: number;
+    status: number;              // 0 = network error
+    action: 'retry' | 'give_up' | 'circuit_open';
+    delay_ms: number;
+    reason: string;
+}
+
+// Per-scan record of the policy's decisions, stored in execution_logs
+export interface FetchContext {
+    decisions: FetchDecision[];
+    blocked: boolean;            // The last response was a 403/429
+    deadline?: number;           // Epoch ms; no backoff wait may end after it
+}
+
+export interface CircuitState {
+    consecutive_failures: number;
+    trips: number;
+    open_until: string | null;
+    updated_at: string | null;
+}
+
+export function createFetchContext(deadline?: number): FetchContext {
+    return { decisions: [], blocked: false, deadline };
+}
+
+/**
+ * Number of retries among a scan's decisions (stored as execution_logs.retries_count)
+ */
+export function countRetries(decisions: FetchDecision[]): number {
+    return decisions.filter(d => d.action === 'retry').length;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Throttle state (per isolate)
+let nextRequestAt = 0;
+let activeRequests = 0;
+const waitingForSlot: Array<() => void> = [];
+
+async function acquireSlot(): Promise<void> {
+    if (activeRequests >= MAX_CONCURRENT_REQUESTS) {
+        await new Promise<void>(resolve => waitingForSlot.push(resolve));
+    }
+    activeRequests++;
+
+    const now = Date.now();
+    const wait = Math.max(0, nextRequestAt - now);
+    nextRequestAt = Math.max(now, nextRequestAt) + MIN_REQUEST_INTERVAL_MS;
+    if (wait > 0) await sleep(wait);
+}
+
+function releaseSlot(): void {
+    activeRequests--;
+    waitingForSlot.shift()?.();
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or HTTP date), in ms
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value.trim());
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Full-jitter exponential backoff: random delay in [0, BASE * 2^attempt)
+ */
+export function backoffDelay(attempt: number, random: () => number = Math.random): number {
+    return Math.floor(random() * BASE_BACKOFF_MS * 2 ** attempt);
+}
+
+/**
+ * Request through the current transport with the throughput limit and retry policy applied.
+ * Returns the last response (possibly an error status); throws the last
+ * network error when no attempt got a response.
+ */
+export async function policyFetch(url: string, init: RequestInit, context?: FetchContext): Promise<Response> {
+    const path = new URL(url).pathname;
+
+    for (let attempt = 1; ; attempt++) {
+        let response: Response | null = null;
+        let networkError: unknown = null;
+
+        await acquireSlot();
+        try {
+            response = await getTransport()(url, init);
+        } catch (error) {
+            networkError = error;
+        } finally {
+            releaseSlot();
+        }
+
+        const status = response ? response.status : 0;
+        if (context) context.blocked = BLOCKED_STATUSES.has(status);
+        if (response && !RETRYABLE_STATUSES.has(status)) return response;
+
+        const retryAfter = response ? parseRetryAfter(response.headers.get('Retry-After')) : null;
+        const delay = retryAfter ?? backoffDelay(attempt);
+        const decision: FetchDecision = {
+            url: path,
+            attempt,
+            status,
+            action: 'retry',
+            delay_ms: delay,
+            reason: retryAfter !== null ? 'retry-after' : 'backoff',
+        };
+
+        if (attempt >= MAX_ATTEMPTS) {
+            decision.action = 'give_up';
+            decision.reason = 'max attempts';
+        } else if (delay > MAX_RETRY_WAIT_MS) {
+            decision.action = 'give_up';
+            decision.reason = 'retry-after too long';
+        } else if (context?.deadline !== undefined && Date.now() + delay > context.deadline) {
+            decision.action = 'give_up';
+            decision.reason = 'deadline';
+        }
+
+        context?.decisions.push(decision);
+        console.warn(`Fetch policy: ${path} -> ${status || 'network error'}, ${decision.action} (${decision.reason}, ${delay}ms)`);
+
+        if (decision.action === 'give_up') {
+            if (response) return response;
+            throw networkError;
+        }
+        await sleep(delay);
+    }
+}
+
+export async function getCircuitState(env: Env): Promise<CircuitState> {
+    const row = await env.DB.prepare(
+        'SELECT consecutive_failures, trips, open_until, updated_at FROM fetch_circuit WHERE id = ?'
+    ).bind(CIRCUIT_ID).first<CircuitState>();
+
+    return row || { consecutive_failures: 0, trips: 0, open_until: null, updated_at: null };
+}
+
+/**
+ * Whether scanning is paused. Once open_until passes, the next scan is a trial:
+ * one more blocked scan reopens the circuit right away, a good one closes it.
+ */
+export function isCircuitOpen(state: CircuitState, now: number = Date.now()): boolean {
+    return state.open_until !== null && Date.parse(state.open_until) > now;
+}
+
+/**
+ * Apply one scan outcome to the circuit state and persist it
+ */
+async function updateCircuit(env: Env, state: CircuitState, blocked: boolean): Promise<CircuitState> {
+    const now = Date.now();
+
+    if (!blocked) {
+        state.consecutive_failures = 0;
+        state.trips = 0;
+        state.open_until = null;
+    } else {
+        state.consecutive_failures++;
+        if (state.consecutive_failures >= CIRCUIT_FAILURE_THRESHOLD) {
+            const cooldown = Math.min(CIRCUIT_BASE_COOLDOWN_MS * 2 ** state.trips, CIRCUIT_MAX_COOLDOWN_MS);
+            state.open_until = new Date(now + cooldown).toISOString();
+            state.trips++;
+            console.error(`Circuit breaker open until ${state.open_until} (${state.consecutive_failures} blocked scans in a row)`);
+        }
+    }
+    state.updated_at = new Date(now).toISOString();
+
+    await env.DB.prepare(`
+        INSERT INTO fetch_circuit (id, consecutive_failures, trips, open_until, updated_at) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+            consecutive_failures = excluded.consecutive_failures,
+            trips = excluded.trips,
+            open_until = excluded.open_until,
+            updated_at = excluded.updated_at
+    `).bind(CIRCUIT_ID, state.consecutive_failures, state.trips, state.open_until, state.updated_at).run();
+
+    return state;
+}
+
+/**
+ * Feed a scan's fetch outcome to the circuit breaker: blocked scans count as
+ * failures, scans that read at least one page as successes, anything else
+ * (e.g. a 5xx) says nothing about blocking. A trip is added to the scan's decisions.
+ */
+export async function recordScanOutcome(
+    env: Env,
+    stats: { blocked: boolean; last_page: number; decisions: FetchDecision[] }
+): Promise<void> {
+    if (!stats.blocked && stats.last_page === 0) return;
+
+    const state = await getCircuitState(env);
+    const previousOpenUntil = state.open_until;
+    const after = await updateCircuit(env, state, stats.blocked);
+
+    if (after.open_until && after.open_until !== previousOpenUntil) {
+        stats.decisions.push({
+            url: '',
+            attempt: 0,
+            status: 0,
+            action: 'circuit_open',
+            delay_ms: Date.parse(after.open_until) - Date.now(),
+            reason: `${after.consecutive_failures} blocked scans in a row, scanning paused until ${after.open_until}`,
+        });
+    }
+}
+
+/**
+ * Close the circuit by hand (e.g. after changing IP or headers)
+ */
+export async function resetCircuit(env: Env): Promise<void> {
+    await env.DB.prepare('DELETE FROM fetch_circuit WHERE id = ?').bind(CIRCUIT_ID).run();
+}
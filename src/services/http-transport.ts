@@ -0,0 +1,98 @@
+/**
+ * HTTP Transport Service
+ * The transport the OLX fetcher sends its requests through: the global fetch by
+ * default, swappable for one that records responses as fixtures or replays them
+ * offline (see scripts/test-olx-fetch.ts)
+ */
+
+export type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+// A recorded response
+export interface HttpFixture {
+    url: string;
+    status: number;
+    content_type: string | null;
+    body: string;
+    recorded_at: string;
+}
+
+// A fixture file: the responses of one fetch of a search (see fixtures/olx)
+export interface HttpFixtureFile {
+    search_url: string;
+    pages: number;
+    fixtures: HttpFixture[];
+}
+
+let transport: HttpTransport = (url, init) => fetch(url, init);
+
+export function getTransport(): HttpTransport {
+    return transport;
+}
+
+/**
+ * Replace the transport, returning the previous one so it can be restored
+ */
+export function setTransport(next: HttpTransport): HttpTransport {
+    const previous = transport;
+    transport = next;
+    return previous;
+}
+
+/**
+ * Key a fixture is stored and looked up by: the URL without its origin
+ */
+export function fixtureKey(url: string): string {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+}
+
+/**
+ * Transport that forwards to another one and hands every response to onRecord.
+ * The caller still gets a readable body (the recorded one is a copy).
+ */
+export function createRecordingTransport(
+    inner: HttpTransport,
+    onRecord: (fixture: HttpFixture) => void
+): HttpTransport {
+    return async (url, init) => {
+        const response = await inner(url, init);
+        const body = await response.clone().text();
+
+        onRecord({
+            url: fixtureKey(url),
+            status: response.status,
+            content_type: response.headers.get('Content-Type'),
+            body,
+            recorded_at: new Date().toISOString(),
+        });
+
+        return response;
+    };
+}
+
+/**
+ * Transport answering from recorded fixtures only. A URL recorded several times
+ * replays its responses in order (the last one repeats), so a 404 followed by a
+ * success replays the same way. Unknown URLs throw, like a network error.
+ */
+export function createReplayTransport(fixtures: HttpFixture[]): HttpTransport {
+    const queues = new Map<string, HttpFixture[]>();
+    for (const fixture of fixtures) {
+        if (!queues.has(fixture.url)) queues.set(fixture.url, []);
+        queues.get(fixture.url)!.push(fixture);
+    }
+
+    return async (url) => {
+        const key = fixtureKey(url);
+        const queue = queues.get(key);
+        if (!queue || queue.length === 0) {
+            throw new Error(`No fixture recorded for ${key}`);
+        }
+
+        const fixture = queue.length > 1 ? queue.shift()! : queue[0];
+        return new Response(fixture.body, {
+            status: fixture.status,
+            headers: fixture.content_type ? { 'Content-Type': fixture.content_type } : {},
+        });
+    };
+}
@@ -0,0 +1,102 @@
+/**
+ * Market Service
+ * Snapshot of every ad returned by each search's scans (before whitelist/blacklist
+ * and rules), used for medians and model stats over the whole observed market
+ */
+
+import { Env, Listing, Alert } from '../types';
+
+// Fields of a market ad needed to compute group medians
+export type MarketSample = Pick<Alert, 'list_id' | 'brand' | 'model' | 'year' | 'mileage' | 'price_cents'>;
+
+export interface MarketModelStats {
+    model: string;
+    count: number;
+    min_price: number | null;
+    max_price: number | null;
+    median_price: number | null;
+    thumbnail_url: string | null;
+}
+
+const MARKET_COLUMNS = [
+    'list_id', 'subject', 'price', 'price_cents', 'municipality', 'neighbourhood', 'ad_url', 'brand',
+    'model', 'thumbnail_url', 'mileage', 'year', 'version', 'fuel', 'gearbox', 'color', 'doors',
+    'engine', 'car_type', 'steering', 'date_ts',
+] as const;
+
+/**
+ * SQL of the market ads within a scope (a WHERE clause over search_id), one row
+ * per ad even when several searches saw it. Binds whatever the scope binds.
+ */
+function scopedMarketSql(scopeSql: string): string {
+    return `
+        SELECT list_id, brand, model, year, mileage, price_cents, thumbnail_url, MAX(last_seen_at) as last_seen_at
+        FROM listings
+        WHERE ${scopeSql}
+        GROUP BY list_id
+    `;
+}
+
+/**
+ * Upsert every listing returned by a scan into the search's market snapshot
+ */
+export async function recordMarketSnapshot(env: Env, searchId: string, listings: Listing[]): Promise<void> {
+    if (listings.length === 0) return;
+
+    const now = new Date().toISOString();
+    const updates = MARKET_COLUMNS
+        .filter(column => column !== 'list_id')
+        .map(column => `${column} = excluded.${column}`)
+        .join(', ');
+
+    const stmt = env.DB.prepare(`
+        INSERT INTO listings (search_id, ${MARKET_COLUMNS.join(', ')}, first_seen_at, last_seen_at)
+        VALUES (?, ${MARKET_COLUMNS.map(() => '?').join(', ')}, ?, ?)
+        ON CONFLICT(search_id, list_id) DO UPDATE SET ${updates}, last_seen_at = excluded.last_seen_at
+    `);
+
+    await env.DB.batch(listings.map(listing =>
+        stmt.bind(searchId, ...MARKET_COLUMNS.map(column => listing[column] ?? null), now, now)
+    ));
+}
+
+/**
+ * Market ads within a scope, to be used as the reference population of scoreOpportunities
+ */
+export async function getMarketSamples(env: Env, scopeSql: string, bindings: unknown[]): Promise<MarketSample[]> {
+    const { results } = await env.DB.prepare(scopedMarketSql(scopeSql)).bind(...bindings).all<MarketSample>();
+    return results;
+}
+
+/**
+ * Per-model stats over the market ads within a scope, most common models first
+ */
+export async function getMarketModelStats(env: Env, scopeSql: string, bindings: unknown[]): Promise<MarketModelStats[]> {
+    const { getMedian } = await import('./scoring');
+
+    const { results } = await env.DB.prepare(
+        scopedMarketSql(scopeSql)
+    ).bind(...bindings).all<MarketSample & { thumbnail_url: string | null }>();
+
+    const groups = new Map<string, typeof results>();
+    for (const row of results) {
+        const model = row.model || 'Desconhecido';
+        if (!groups.has(model)) groups.set(model, []);
+        groups.get(model)!.push(row);
+    }
+
+    return Array.from(groups.entries())
+        .map(([model, rows]) => {
+            const prices = rows.filter(r => r.price_cents).map(r => r.price_cents! / 100);
+
+            return {
+                model,
+                count: rows.length,
+                min_price: prices.length > 0 ? Math.min(...prices) : null,
+                max_price: prices.length > 0 ? Math.max(...prices) : null,
+                median_price: prices.length > 0 ? getMedian(prices) : null,
+                thumbnail_url: rows.find(r => r.thumbnail_url)?.thumbnail_url || null,
+            };
+        })
+        .sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,135 @@
+/**
+ * Migrator Service
+ * Applies pending migrations in order and records them in schema_migrations
+ */
+
+import { Env } from '../types';
+import { migrations, Migration } from '../db/migrations';
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    applied_at: string | null;
+}
+
+export interface MigrationRunResult {
+    applied: Array<{ version: number; name: string; rows?: number }>;
+    current_version: number;
+    error?: string;
+}
+
+/**
+ * Split a migration file into single statements.
+ * Comments are stripped first; migrations must not contain triggers or
+ * string literals with semicolons.
+ */
+export function splitSqlStatements(sql: string): string[] {
+    return sql
+        .split('\n')
+        .map(line => line.replace(/--.*$/, ''))
+        .join('\n')
+        .split(';')
+        .map(stmt => stmt.trim())
+        .filter(stmt => stmt.length > 0);
+}
+
+async function ensureMigrationsTable(env: Env): Promise<void> {
+    await env.DB.prepare(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT DEFAULT (datetime('now'))
+        )
+    `).run();
+}
+
+async function getAppliedVersions(env: Env): Promise<Map<number, string>> {
+    const { results } = await env.DB.prepare(
+        'SELECT version, applied_at FROM schema_migrations ORDER BY version'
+    ).all<{ version: number; applied_at: string }>();
+
+    return new Map(results.map(r => [r.version, r.applied_at]));
+}
+
+/**
+ * Run a schema migration statement by statement.
+ * Databases created from the old schema.sql (or patched by hand) may already
+ * have some of the added columns, so "duplicate column" errors are skipped.
+ */
+async function applySql(env: Env, sql: string): Promise<void> {
+    for (const statement of splitSqlStatements(sql)) {
+        try {
+            await env.DB.prepare(statement).run();
+        } catch (error) {
+            if (/duplicate column name/i.test(String(error))) {
+                console.warn(`Skipping already applied statement: ${statement.split('\n')[0]}`);
+                continue;
+            }
+            throw error;
+        }
+    }
+}
+
+async function applyMigration(env: Env, migration: Migration): Promise<number | undefined> {
+    let rows: number | undefined;
+
+    if (migration.sql) {
+        await applySql(env, migration.sql);
+    }
+    if (migration.run) {
+        rows = (await migration.run(env)) ?? undefined;
+    }
+
+    await env.DB.prepare(
+        'INSERT INTO schema_migrations (version, name) VALUES (?, ?)'
+    ).bind(migration.version, migration.name).run();
+
+    return rows;
+}
+
+/**
+ * List every known migration and when it was applied
+ */
+export async function getMigrationStatus(env: Env): Promise<MigrationStatus[]> {
+    await ensureMigrationsTable(env);
+    const applied = await getAppliedVersions(env);
+
+    return migrations.map(m => ({
+        version: m.version,
+        name: m.name,
+        applied_at: applied.get(m.version) || null,
+    }));
+}
+
+/**
+ * Apply all pending migrations in version order.
+ * Stops at the first failure so later migrations never run on a half-migrated schema.
+ */
+export async function runMigrations(env: Env): Promise<MigrationRunResult> {
+    await ensureMigrationsTable(env);
+    const applied = await getAppliedVersions(env);
+
+    const pending = migrations
+        .filter(m => !applied.has(m.version))
+        .sort((a, b) => a.version - b.version);
+
+    const result: MigrationRunResult = {
+        applied: [],
+        current_version: Math.max(0, ...applied.keys()),
+    };
+
+    for (const migration of pending) {
+        try {
+            console.log(`Applying migration ${migration.version}_${migration.name}`);
+            const rows = await applyMigration(env, migration);
+            result.applied.push({ version: migration.version, name: migration.name, rows });
+            result.current_version = migration.version;
+        } catch (error) {
+            console.error(`Migration ${migration.version}_${migration.name} failed:`, error);
+            result.error = `Migration ${migration.version}_${migration.name} failed: ${String(error)}`;
+            break;
+        }
+    }
+
+    return result;
+}
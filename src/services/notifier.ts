@@ -0,0 +1,45 @@
+/**
+ * Notifier Service
+ * Fans out newly created alerts to every server-side notification channel
+ */
+
+import { Env, Alert, SavedSearchRow } from '../types';
+
+/**
+ * Dispatch alerts of one scan to all channels.
+ * Channel failures are logged and never fail the scan itself.
+ */
+export async function dispatchAlertNotifications(
+    env: Env,
+    search: SavedSearchRow,
+    alerts: Alert[]
+): Promise<void> {
+    if (alerts.length === 0) return;
+
+    // An ad that another search of the same owner already matched was notified
+    // back then: it stays in this search, but is not announced twice
+    const { findAdsInOtherSearches } = await import('./ads');
+    const alreadyNotified = await findAdsInOtherSearches(
+        env,
+        search.user_id,
+        search.id,
+        alerts.filter(a => a.alert_type === 'new').map(a => a.list_id)
+    );
+    alerts = alerts.filter(a => a.alert_type !== 'new' || !alreadyNotified.has(a.list_id));
+    if (alerts.length === 0) return;
+
+    const { notifyWebhooks } = await import('./webhooks');
+    const { notifyTelegram } = await import('./telegram');
+
+    try {
+        await notifyWebhooks(env, search, alerts);
+    } catch (error) {
+        console.error(`Webhook notification failed for ${search.name}:`, error);
+    }
+
+    try {
+        await notifyTelegram(env, search, alerts);
+    } catch (error) {
+        console.error(`Telegram notification failed for ${search.name}:`, error);
+    }
+}
@@ -4,9 +4,11 @@
  */
 
 import { OlxAd, OlxSearchResponse, Listing, ExecutionLog } from '../types';
+import { FetchContext, FetchDecision, createFetchContext, policyFetch } from './fetch-policy';
+import { Catalog, EMPTY_CATALOG, normalizeVehicle } from './catalog';
 
 // Constants
-const MAX_PAGES = 5;
+export const MAX_PAGES = 5; // Pages read by a quick scan (the deep crawl continues after them)
 const OLX_BASE_URL = 'https://www.olx.com.br';
 const BUILD_ID_CACHE_TTL = 60 * 60 * 1000; // 1 hour in milliseconds
 
@@ -20,7 +22,7 @@ const buildIdCache = new Map<string, BuildIdCacheEntry>();
 /**
  * Get cached buildId or extract from page
  */
-export async function getBuildId(humanUrl: string): Promise<string | null> {
+export async function getBuildId(humanUrl: string, context?: FetchContext): Promise<string | null> {
     const urlHost = new URL(humanUrl).origin;
     const cached = buildIdCache.get(urlHost);
 
@@ -29,7 +31,7 @@ export async function getBuildId(humanUrl: string): Promise<string | null> {
         return cached.buildId;
     }
 
-    const buildId = await extractBuildId(humanUrl);
+    const buildId = await extractBuildId(humanUrl, context);
     if (buildId) {
         buildIdCache.set(urlHost, { buildId, timestamp: Date.now() });
         console.log(`Cached buildId for ${urlHost}: ${buildId}`);
@@ -41,14 +43,14 @@ export async function getBuildId(humanUrl: string): Promise<string | null> {
  * Extract buildId from OLX page HTML
  * The buildId is required to construct the _next/data URL
  */
-export async function extractBuildId(humanUrl: string): Promise<string | null> {
+export async function extractBuildId(humanUrl: string, context?: FetchContext): Promise<string | null> {
     try {
-        const response = await fetch(humanUrl, {
+        const response = await policyFetch(humanUrl, {
             headers: {
                 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
                 'Accept': 'text/html,application/xhtml+xml',
             },
-        });
+        }, context);
 
         if (!response.ok) {
             console.error(`Failed to fetch OLX page: ${response.status}`);
@@ -120,16 +122,17 @@ export function buildDataUrl(humanUrl: string, buildId: string, page: number = 1
  * Fetch a single page of results from OLX
  * Returns the raw parsed data or null if error
  * Throws error on 404 (likely expired buildId) to trigger retry
+ * ads is null when a 200 response has no pageProps.ads (the endpoint changed shape)
  */
-export async function fetchPage(dataUrl: string): Promise<{ ads: OlxAd[], status: number }> {
+export async function fetchPage(dataUrl: string, context?: FetchContext): Promise<{ ads: OlxAd[] | null, status: number }> {
     try {
-        const response = await fetch(dataUrl, {
+        const response = await policyFetch(dataUrl, {
             headers: {
                 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
                 'Accept': 'application/json',
                 'Referer': OLX_BASE_URL,
             },
-        });
+        }, context);
 
         // 404 usually means buildId is stale
         if (response.status === 404) {
@@ -143,7 +146,11 @@ export async function fetchPage(dataUrl: string): Promise<{ ads: OlxAd[], status
         }
 
         const data: OlxSearchResponse = await response.json();
-        const ads = data?.pageProps?.ads || [];
+        const ads = data?.pageProps?.ads;
+        if (!Array.isArray(ads)) {
+            console.error(`No pageProps.ads in ${dataUrl}`);
+            return { ads: null, status: 200 };
+        }
 
         return { ads: ads.filter(ad => ad.listId && ad.url), status: 200 };
     } catch (error) {
@@ -152,7 +159,71 @@ export async function fetchPage(dataUrl: string): Promise<{ ads: OlxAd[], status
     }
 }
 
-export function parseAd(ad: OlxAd, searchId: string): Listing {
+/**
+ * Convert human URL to the URL of one of its result pages
+ */
+export function buildPageUrl(humanUrl: string, page: number = 1): string {
+    const url = new URL(humanUrl);
+    if (page > 1) {
+        url.searchParams.set('sp', String(page));
+    }
+    return url.toString();
+}
+
+/**
+ * Parse the __NEXT_DATA__ script embedded in an OLX page (null if missing or invalid)
+ */
+export function extractNextData<T>(html: string): T | null {
+    const match = html.match(/<script[^>]*id="__NEXT_DATA__"[^>]*>([\s\S]*?)<\/script>/);
+    if (!match) return null;
+
+    try {
+        return JSON.parse(match[1]);
+    } catch (error) {
+        console.error('Invalid __NEXT_DATA__ JSON:', error);
+        return null;
+    }
+}
+
+/**
+ * Extract the ads from the __NEXT_DATA__ of a search page.
+ * It holds the same pageProps the _next/data endpoint returns.
+ * Returns null when the page has no (parseable) __NEXT_DATA__.
+ */
+export function parseNextData(html: string): OlxAd[] | null {
+    const ads = extractNextData<{ props?: OlxSearchResponse }>(html)?.props?.pageProps?.ads;
+    return Array.isArray(ads) ? ads.filter(ad => ad.listId && ad.url) : null;
+}
+
+/**
+ * Fetch a single page of results from the HTML search page (fallback strategy)
+ * ads is null when the page could not be fetched or had no __NEXT_DATA__
+ */
+export async function fetchHtmlPage(pageUrl: string, context?: FetchContext): Promise<{ ads: OlxAd[] | null, status: number }> {
+    try {
+        const response = await policyFetch(pageUrl, {
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+                'Accept': 'text/html,application/xhtml+xml',
+            },
+        }, context);
+
+        if (!response.ok) {
+            console.error(`Failed to fetch OLX page: ${response.status}`);
+            return { ads: null, status: response.status };
+        }
+
+        return { ads: parseNextData(await response.text()), status: 200 };
+    } catch (error) {
+        console.error('Error fetching HTML page:', error);
+        return { ads: null, status: 500 };
+    }
+}
+
+/**
+ * Convert an OLX ad to a listing, with brand/model/version normalized through the catalog
+ */
+export function parseAd(ad: OlxAd, searchId: string, catalog: Catalog = EMPTY_CATALOG): Listing {
     // Helper to find property by name (preferred) or label fallback
     const findProp = (names: string[], labels: string[]): string | null => {
         if (!ad.properties) return null;
@@ -174,39 +245,36 @@ export function parseAd(ad: OlxAd, searchId: string): Listing {
         return null;
     };
 
-    // Extract brand using structured property
-    let brand = findProp(['vehicle_brand'], ['marca']);
-
-    // Extract model using structured property
+    // Extract brand and model using structured properties
+    const brand = findProp(['vehicle_brand'], ['marca']);
     let model = findProp(['vehicle_model'], ['modelo', 'model']);
 
-    // If model includes brand, create a clean "Brand Model" format
-    if (brand && model) {
-        // Clean redundant brand from model if present
-        if (model.toLowerCase().startsWith(brand.toLowerCase())) {
-            model = model.substring(brand.length).trim();
-        }
-        // Create combined "Brand Model" for grouping
-        model = `${brand} ${model}`.trim();
-    } else if (!model && ad.subject) {
-        // Fallback: extract from subject
+    // Fallback: extract from subject
+    if (!model && ad.subject) {
         model = extractModelFromSubject(ad.subject);
-        // Try to extract brand from first word of subject
-        if (!brand && ad.subject) {
-            brand = ad.subject.split(/\s+/)[0] || null;
-        }
     }
 
+    // Canonical names, with the combined "Brand Model" used for grouping
+    const vehicle = normalizeVehicle(catalog, {
+        brand,
+        model,
+        version: findProp(['vehicle_version'], ['versão']),
+    });
+
     // Extract mileage using structured property
     let mileage: number | null = null;
-    const mileageStr = findProp(['mileage'], ['quilômet', 'km']);
+    const mileageStr = findProp(['mileage'], ['quilometragem', 'quilômet', 'km']);
     if (mileageStr) {
         const clean = mileageStr.replace(/\D/g, '');
         mileage = parseInt(clean, 10) || null;
     }
 
-    // Extract year using structured property (for future use)
-    const year = findProp(['regdate'], ['ano']);
+    // Extract year using structured property
+    const yearStr = findProp(['regdate'], ['ano']);
+    const year = yearStr ? parseInt(yearStr.replace(/\D/g, ''), 10) || null : null;
+
+    const doorsStr = findProp(['doors'], ['portas']);
+    const doors = doorsStr ? parseInt(doorsStr.replace(/\D/g, ''), 10) || null : null;
 
     return {
         list_id: String(ad.listId),
@@ -216,15 +284,35 @@ export function parseAd(ad: OlxAd, searchId: string): Listing {
         municipality: ad.location?.municipality || null,
         neighbourhood: ad.location?.neighbourhood || null,
         ad_url: ad.url.startsWith('http') ? ad.url : `${OLX_BASE_URL}${ad.url}`,
-        brand: brand,
-        model: model,
+        brand: vehicle.brand,
+        model: vehicle.model,
         date_ts: ad.date || null,
         thumbnail_url: ad.images?.[0]?.original || ad.thumbnail || null,
         mileage: mileage,
+        price_cents: parsePriceCents(ad.price),
+        year: year,
+        version: vehicle.version,
+        fuel: findProp(['fuel'], ['combustível']),
+        gearbox: findProp(['gearbox'], ['câmbio']),
+        color: findProp(['carcolor'], ['cor']),
+        doors: doors,
+        engine: findProp(['motorpower'], ['potência do motor']),
+        car_type: findProp(['cartype'], ['tipo de veículo']),
+        steering: findProp(['car_steering'], ['direção']),
         collected_at: new Date().toISOString(),
     };
 }
 
+/**
+ * Parse an OLX display price ("R$ 35.900" or "R$ 35.900,50") to integer cents
+ */
+export function parsePriceCents(priceStr: string | null | undefined): number | null {
+    if (!priceStr) return null;
+    const clean = priceStr.replace(/[R$\s.]/g, '').replace(',', '.');
+    const value = parseFloat(clean);
+    return value > 0 ? Math.round(value * 100) : null;
+}
+
 export function extractModelFromSubject(subject: string): string | null {
     let text = subject.trim();
 
@@ -264,20 +352,33 @@ export interface FetchStats {
     duration_ms: number;
     requests_count: number;
     first_list_id: string | null;
+    last_page: number; // Last page read with ads (0 if none)
+    strategy: ExecutionLog['fetch_strategy'];
+    blocked: boolean;  // The last response was a 403/429 (feeds the circuit breaker)
+    decisions: FetchDecision[];
     error_message?: string;
 }
 
 /**
  * Fetch all pages for a search with reliability features:
  * - Autocura de buildId (retry on 404)
+ * - Fallback to the __NEXT_DATA__ of the HTML pages when the data endpoint is unavailable
  * - Anti-loop protection
  * - Detailed stats
+ *
+ * Reads maxPages pages from options.startPage (1 by default), stopping early
+ * with stop_reason 'budget' once options.deadline (epoch ms) has passed.
+ * Brand/model names are normalized with options.catalog (see services/catalog).
+ * Requests go through the fetch policy (throttling, retries), whose decisions are returned.
  */
 export async function fetchAllPages(
     humanUrl: string,
     searchId: string,
-    maxPages: number = MAX_PAGES
+    maxPages: number = MAX_PAGES,
+    options: { startPage?: number; deadline?: number; catalog?: Catalog } = {}
 ): Promise<FetchStats> {
+    const startPage = options.startPage ?? 1;
+    const endPage = startPage + maxPages - 1;
     const startTime = Date.now();
     const listings: Listing[] = [];
     const seenIds = new Set<string>();
@@ -288,41 +389,113 @@ export async function fetchAllPages(
     // Track first listing ID of each page to detect loops/stuck state
     // Map<pageNumber, firstListId>
     const pageFirstIds = new Map<number, string>();
+    const context = createFetchContext(options.deadline);
 
     // Initial buildId
-    let buildId = await getBuildId(humanUrl);
+    let buildId = await getBuildId(humanUrl, context);
     requestsCount++; // buildId fetch counts as request roughly (HTML fetch)
 
+    // Without a buildId (or once the data endpoint fails) pages are read from their HTML
+    let strategy = 'next_data' as FetchStats['strategy'];
+    const fallBackToHtml = (reason: string) => {
+        console.warn(`${reason}, falling back to __NEXT_DATA__ of the HTML pages`);
+        strategy = 'html';
+    };
+
     if (!buildId) {
-        return {
-            listings: [],
-            sp_min: 0,
-            sp_max: 0,
-            stop_reason: 'error',
-            error_message: 'Could not resolve buildId',
-            duration_ms: Date.now() - startTime,
-            requests_count: requestsCount,
-            first_list_id: null
-        };
+        if (context.blocked) {
+            return {
+                listings: [],
+                sp_min: 0,
+                sp_max: 0,
+                stop_reason: 'error',
+                error_message: 'Could not resolve buildId',
+                duration_ms: Date.now() - startTime,
+                requests_count: requestsCount,
+                first_list_id: null,
+                last_page: 0,
+                strategy,
+                blocked: context.blocked,
+                decisions: context.decisions,
+            };
+        }
+        fallBackToHtml('Could not resolve buildId');
     }
 
-    let page = 1;
+    let page = startPage;
+    let lastPage = 0;
     let retryCount = 0;
     const MAX_RETRIES = 1;
 
-    for (; page <= maxPages; page++) {
-        const dataUrl = buildDataUrl(humanUrl, buildId, page);
+    // Add a page's ads (whatever the strategy), returning false when the scan must stop
+    const processPage = (ads: OlxAd[]): boolean => {
+        if (ads.length === 0) {
+            console.log(`Page ${page} returned no ads, stopping`);
+            stopReason = page === startPage ? 'empty' : 'completed';
+            return false;
+        }
+
+        // --- Anti-loop protection ---
+        const firstId = String(ads[0].listId);
+
+        // Check if we saw this firstId in ANY previous page (not just page 1)
+        // This detects if pagination is broken (returning page 1 content for page 2)
+        for (const [p, fid] of pageFirstIds.entries()) {
+            if (fid === firstId) {
+                console.warn(`Anti-loop: Page ${page} has same first listing as page ${p}`);
+                stopReason = 'loop';
+                return false;
+            }
+        }
+
+        pageFirstIds.set(page, firstId);
+        lastPage = page;
+
+        // Parse and dedupe
+        for (const ad of ads) {
+            const listId = String(ad.listId);
+            if (!seenIds.has(listId)) {
+                seenIds.add(listId);
+                listings.push(parseAd(ad, searchId, options.catalog));
+            }
+        }
+        return true;
+    };
+
+    for (; page <= endPage; page++) {
+        if (options.deadline !== undefined && Date.now() >= options.deadline) {
+            console.log(`Deadline reached before page ${page}, stopping`);
+            stopReason = 'budget';
+            break;
+        }
+
+        if (strategy === 'html') {
+            const pageUrl = buildPageUrl(humanUrl, page);
+            console.log(`Fetching page ${page} (HTML): ${pageUrl}`);
+            requestsCount++;
+
+            const result = await fetchHtmlPage(pageUrl, context);
+            if (!result.ads) {
+                stopReason = 'error';
+                errorMessage = result.status === 200 ? 'No __NEXT_DATA__ in search page' : `HTTP ${result.status}`;
+                break;
+            }
+            if (!processPage(result.ads)) break;
+            continue;
+        }
+
+        const dataUrl = buildDataUrl(humanUrl, buildId!, page);
         console.log(`Fetching page ${page}: ${dataUrl}`);
         requestsCount++;
 
-        const { ads, status } = await fetchPage(dataUrl);
+        const { ads, status } = await fetchPage(dataUrl, context);
 
         // --- Autocura de buildId ---
         if (status === 404 && retryCount < MAX_RETRIES) {
             console.warn(`Page ${page} returned 404. Attempting to refresh buildId...`);
 
             // Force refresh buildId from live page
-            const newBuildId = await extractBuildId(humanUrl);
+            const newBuildId = await extractBuildId(humanUrl, context);
             requestsCount++; // extra request
 
             if (newBuildId && newBuildId !== buildId) {
@@ -339,84 +512,62 @@ export async function fetchAllPages(
                 continue;
             } else {
                 console.error('Failed to recover buildId or buildId is same');
-                stopReason = 'error';
-                errorMessage = 'BuildId expired and refresh failed';
-                break;
+                fallBackToHtml('BuildId expired and refresh failed');
+                page--;
+                continue;
             }
         } else if (status === 404) {
-            stopReason = 'error';
-            errorMessage = 'Page 404 (likely buildId) after retry';
-            break;
+            fallBackToHtml('Page 404 (likely buildId) after retry');
+            page--;
+            continue;
         }
 
         if (status !== 200 && status !== 404) {
             console.error(`Page ${page} error status ${status}`);
-            // If transient error, maybe we continue? For now stop.
+            // Blocked requests would be blocked on the HTML pages too
+            if (!context.blocked) {
+                fallBackToHtml(`Data endpoint returned HTTP ${status}`);
+                page--;
+                continue;
+            }
             stopReason = 'error';
             errorMessage = `HTTP ${status}`;
             break;
         }
 
-        if (ads.length === 0) {
-            console.log(`Page ${page} returned no ads, stopping`);
-            stopReason = page === 1 ? 'empty' : 'completed';
-            break;
-        }
-
-        // --- Anti-loop protection ---
-        const firstId = String(ads[0].listId);
-
-        // Check if we saw this firstId in ANY previous page (not just page 1)
-        // This detects if pagination is broken (returning page 1 content for page 2)
-        let loopDetected = false;
-        for (const [p, fid] of pageFirstIds.entries()) {
-            if (fid === firstId) {
-                console.warn(`Anti-loop: Page ${page} has same first listing as page ${p}`);
-                stopReason = 'loop';
-                loopDetected = true;
-                break;
-            }
+        if (!ads) {
+            fallBackToHtml('Data endpoint returned no pageProps.ads');
+            page--;
+            continue;
         }
-        if (loopDetected) break;
 
-        pageFirstIds.set(page, firstId);
-
-        // Parse and dedupe
-        let addedCount = 0;
-        for (const ad of ads) {
-            const listId = String(ad.listId);
-            if (!seenIds.has(listId)) {
-                seenIds.add(listId);
-                listings.push(parseAd(ad, searchId));
-                addedCount++;
-            }
-        }
+        if (!processPage(ads)) break;
 
         // If we fetched a full page but added nothing? (Maybe all dupes?)
         // Could be a stop condition, but let's trust maxPages limit.
-
-        // Small delay
-        if (page < maxPages) {
-            await new Promise(resolve => setTimeout(resolve, 500));
-        }
+        // (Requests are spaced out by the fetch policy, no delay needed here)
     }
 
     // Determine final stop reason if loop finished naturally
-    if (page > maxPages && stopReason === 'completed') {
+    if (page > endPage && stopReason === 'completed') {
         stopReason = 'limit';
     }
 
     const duration = Date.now() - startTime;
-    console.log(`Scan complete: ${listings.length} listings. Stop: ${stopReason}. Duration: ${duration}ms`);
+    console.log(`Scan complete: ${listings.length} listings. Stop: ${stopReason}. Strategy: ${strategy}. Duration: ${duration}ms`);
 
     return {
         listings,
-        sp_min: 1,
-        sp_max: Math.min(page, maxPages), // page might be maxPages + 1 if loop completed
+        sp_min: startPage,
+        sp_max: Math.min(page, endPage), // page might be endPage + 1 if loop completed
         stop_reason: stopReason,
         duration_ms: duration,
         requests_count: requestsCount,
-        first_list_id: pageFirstIds.get(1) || null,
+        first_list_id: pageFirstIds.get(startPage) || null,
+        last_page: lastPage,
+        strategy,
+        blocked: context.blocked,
+        decisions: context.decisions,
         error_message: errorMessage
     };
 }
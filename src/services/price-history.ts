@@ -0,0 +1,129 @@
+/**
+ * Price History Service
+ * Records observed prices per search and list_id across scans and detects price changes
+ */
+
+import { Env, Listing, PriceHistoryEntry } from '../types';
+import { ACCESSIBLE_SEARCHES_SQL } from './sharing';
+
+// D1 limits bound parameters per statement, so lookups are chunked
+const LOOKUP_CHUNK_SIZE = 90;
+
+export interface PriceChange {
+    list_id: string;
+    old_price: string | null;
+    new_price: string | null;
+    old_value: number;
+    new_value: number;
+}
+
+/**
+ * Get the latest price entry recorded by a search for each list_id
+ */
+async function getLatestEntries(env: Env, searchId: string, listIds: string[]): Promise<Map<string, PriceHistoryEntry>> {
+    const latest = new Map<string, PriceHistoryEntry>();
+
+    for (let i = 0; i < listIds.length; i += LOOKUP_CHUNK_SIZE) {
+        const chunk = listIds.slice(i, i + LOOKUP_CHUNK_SIZE);
+        const placeholders = chunk.map(() => '?').join(', ');
+        const { results } = await env.DB.prepare(`
+            SELECT * FROM price_history
+            WHERE search_id = ? AND list_id IN (${placeholders})
+            ORDER BY id ASC
+        `).bind(searchId, ...chunk).all<PriceHistoryEntry>();
+
+        // Rows come oldest first, so the last write per list_id wins
+        for (const row of results) {
+            latest.set(row.list_id, row);
+        }
+    }
+
+    return latest;
+}
+
+/**
+ * Record the current price of every listing scanned by a search.
+ * A new row is written on first sight and whenever the price changes;
+ * otherwise only last_seen_at is refreshed. Changes are detected against what
+ * this search saw last, so a change another search recorded first still
+ * counts here.
+ */
+export async function recordPriceObservations(env: Env, searchId: string, listings: Listing[]): Promise<PriceChange[]> {
+    const priced = listings.filter(l => l.price_cents);
+    if (priced.length === 0) return [];
+
+    const latest = await getLatestEntries(env, searchId, priced.map(l => l.list_id));
+    const now = new Date().toISOString();
+    const changes: PriceChange[] = [];
+
+    const insertStmt = env.DB.prepare(`
+        INSERT INTO price_history (list_id, search_id, price, price_value, first_seen_at, last_seen_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const touchStmt = env.DB.prepare('UPDATE price_history SET last_seen_at = ? WHERE id = ?');
+
+    const batch = priced.map(listing => {
+        const value = listing.price_cents! / 100;
+        const previous = latest.get(listing.list_id);
+
+        if (previous && previous.price_value === value) {
+            return touchStmt.bind(now, previous.id);
+        }
+
+        if (previous) {
+            changes.push({
+                list_id: listing.list_id,
+                old_price: previous.price,
+                new_price: listing.price,
+                old_value: previous.price_value,
+                new_value: value,
+            });
+        }
+
+        return insertStmt.bind(listing.list_id, searchId, listing.price, value, now, now);
+    });
+
+    await env.DB.batch(batch);
+
+    return changes;
+}
+
+/**
+ * Merge the rows of several searches into one timeline: each search records
+ * its own rows, so the same price shows up once per search that saw it
+ */
+function mergeObservations(rows: PriceHistoryEntry[]): PriceHistoryEntry[] {
+    const merged: PriceHistoryEntry[] = [];
+
+    for (const row of rows) {
+        const last = merged[merged.length - 1];
+        if (last && last.price_value === row.price_value) {
+            if (row.last_seen_at > last.last_seen_at) last.last_seen_at = row.last_seen_at;
+            continue;
+        }
+        merged.push({ ...row });
+    }
+
+    return merged;
+}
+
+/**
+ * Get the full price history of a listing, oldest first.
+ * With userId, the listing must be an alert or a market listing of a search
+ * that user can access; otherwise nothing is returned.
+ */
+export async function getPriceHistory(env: Env, listId: string, userId?: string): Promise<PriceHistoryEntry[]> {
+    if (userId !== undefined) {
+        const accessible = await env.DB.prepare(`
+            SELECT 1 WHERE EXISTS (SELECT 1 FROM alerts WHERE list_id = ? AND search_id IN ${ACCESSIBLE_SEARCHES_SQL})
+                OR EXISTS (SELECT 1 FROM listings WHERE list_id = ? AND search_id IN ${ACCESSIBLE_SEARCHES_SQL})
+        `).bind(listId, userId, userId, listId, userId, userId).first();
+        if (!accessible) return [];
+    }
+
+    const { results } = await env.DB.prepare(
+        'SELECT * FROM price_history WHERE list_id = ? ORDER BY first_seen_at ASC, id ASC'
+    ).bind(listId).all<PriceHistoryEntry>();
+
+    return mergeObservations(results);
+}
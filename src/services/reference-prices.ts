@@ -0,0 +1,235 @@
+/**
+ * Reference Prices Service
+ * Imported price table (FIPE-style, by brand/model/year) used as a second price
+ * signal, independent of how many ads of a model the scans have seen
+ */
+
+import { Env, ReferencePrice, ReferencePriceInput } from '../types';
+import { aliasKey, loadCatalog, normalizeVehicle } from './catalog';
+
+// Rows accepted per import request (larger tables are uploaded in parts)
+export const MAX_IMPORT_ROWS = 20_000;
+
+// Statements per D1 batch when importing
+const IMPORT_BATCH_SIZE = 500;
+
+// D1 limits bound parameters per statement, so IN lists are chunked
+const LOOKUP_CHUNK_SIZE = 90;
+
+// Accepted CSV headers (in aliasKey form) per field
+const CSV_COLUMNS: Record<keyof ReferencePriceInput, string[]> = {
+    brand: ['brand', 'marca'],
+    model: ['model', 'modelo'],
+    year: ['year', 'ano', 'ano modelo', 'anomodelo'],
+    price: ['price', 'preco', 'valor'],
+    version: ['version', 'versao'],
+};
+
+export interface ReferenceImportResult {
+    imported: number;
+    skipped: number;
+    errors: string[];         // First few reasons rows were skipped
+}
+
+export interface ReferenceComparison {
+    reference_price: number | null;   // Reais
+    pct_vs_reference: number | null;  // Negative = below the reference
+}
+
+/**
+ * Lookup key of a reference price: the normalized "Brand Model" and the model year
+ */
+export function referenceKey(model: string, year: number): string {
+    return `${model}|${year}`;
+}
+
+/**
+ * Split a CSV line on the delimiter, honoring double-quoted fields
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            fields.push(field.trim());
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    fields.push(field.trim());
+
+    return fields;
+}
+
+/**
+ * Parse an uploaded CSV (comma or semicolon separated, with a header row)
+ */
+export function parseReferenceCsv(text: string): ReferencePriceInput[] | string {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length < 2) return 'CSV needs a header row and at least one row';
+
+    const delimiter = lines[0].split(';').length > lines[0].split(',').length ? ';' : ',';
+    const headers = splitCsvLine(lines[0], delimiter).map(aliasKey);
+
+    const indexes = {} as Record<keyof ReferencePriceInput, number>;
+    for (const [field, names] of Object.entries(CSV_COLUMNS) as Array<[keyof ReferencePriceInput, string[]]>) {
+        indexes[field] = headers.findIndex(header => names.includes(header));
+    }
+    const missing = (['brand', 'model', 'year', 'price'] as const).filter(field => indexes[field] < 0);
+    if (missing.length > 0) return `Missing CSV columns: ${missing.join(', ')}`;
+
+    return lines.slice(1).map(line => {
+        const fields = splitCsvLine(line, delimiter);
+        return {
+            brand: fields[indexes.brand] || '',
+            model: fields[indexes.model] || '',
+            year: fields[indexes.year] || '',
+            price: fields[indexes.price] || '',
+            version: indexes.version >= 0 ? fields[indexes.version] : undefined,
+        };
+    });
+}
+
+/**
+ * Price in cents from a number or a "45000.00" / "R$ 45.000,00" string
+ */
+export function parseReferencePrice(value: number | string): number | null {
+    if (typeof value === 'number') {
+        return value > 0 ? Math.round(value * 100) : null;
+    }
+
+    const text = String(value || '').replace(/[R$\s]/g, '');
+    const normalized = /^\d+(\.\d{1,2})?$/.test(text)
+        ? text
+        : text.replace(/\./g, '').replace(',', '.');
+    const price = parseFloat(normalized);
+
+    return price > 0 ? Math.round(price * 100) : null;
+}
+
+/**
+ * Model year of a row; FIPE's 32000 ("zero km") and anything unparseable are rejected
+ */
+function parseReferenceYear(value: number | string): number | null {
+    const year = typeof value === 'number' ? value : parseInt(String(value).slice(0, 4), 10);
+    return year >= 1950 && year <= new Date().getFullYear() + 1 ? year : null;
+}
+
+/**
+ * Import a price table. Brand/model go through the catalog so they match the
+ * ads' normalized model; the original model text is kept as the version so
+ * every version of a model/year is stored (they are combined by median on lookup).
+ * With replace, the whole table is cleared first.
+ */
+export async function importReferencePrices(
+    env: Env,
+    inputs: ReferencePriceInput[],
+    options: { source?: string; replace?: boolean } = {}
+): Promise<ReferenceImportResult> {
+    const catalog = await loadCatalog(env);
+    const result: ReferenceImportResult = { imported: 0, skipped: 0, errors: [] };
+    const now = new Date().toISOString();
+
+    const skip = (row: number, reason: string) => {
+        result.skipped++;
+        if (result.errors.length < 20) result.errors.push(`Row ${row}: ${reason}`);
+    };
+
+    const stmt = env.DB.prepare(`
+        INSERT INTO reference_prices (brand, model, year, version, price_cents, source, imported_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(model, year, version) DO UPDATE SET
+            brand = excluded.brand,
+            price_cents = excluded.price_cents,
+            source = excluded.source,
+            imported_at = excluded.imported_at
+    `);
+    const statements: D1PreparedStatement[] = [];
+
+    inputs.forEach((input, index) => {
+        const row = index + 1;
+        const year = parseReferenceYear(input.year);
+        const priceCents = parseReferencePrice(input.price);
+        const vehicle = normalizeVehicle(catalog, {
+            brand: input.brand ? String(input.brand) : null,
+            model: input.model ? String(input.model) : null,
+            version: null,
+        });
+
+        if (!vehicle.model) return skip(row, 'missing model');
+        if (!year) return skip(row, `invalid year "${input.year}"`);
+        if (!priceCents) return skip(row, `invalid price "${input.price}"`);
+
+        const version = (input.version || input.model).toString().trim();
+        statements.push(stmt.bind(vehicle.brand, vehicle.model, year, version, priceCents, options.source || null, now));
+    });
+
+    if (options.replace) {
+        await env.DB.prepare('DELETE FROM reference_prices').run();
+    }
+    for (let i = 0; i < statements.length; i += IMPORT_BATCH_SIZE) {
+        await env.DB.batch(statements.slice(i, i + IMPORT_BATCH_SIZE));
+    }
+    result.imported = statements.length;
+
+    return result;
+}
+
+/**
+ * Reference price (reais) per referenceKey for the given models, the median over
+ * the versions of each model/year
+ */
+export async function getReferencePrices(env: Env, models: Array<string | null>): Promise<Map<string, number>> {
+    const { getMedian } = await import('./scoring');
+    const unique = Array.from(new Set(models.filter((model): model is string => !!model)));
+    const pricesByKey = new Map<string, number[]>();
+
+    for (let i = 0; i < unique.length; i += LOOKUP_CHUNK_SIZE) {
+        const chunk = unique.slice(i, i + LOOKUP_CHUNK_SIZE);
+        const { results } = await env.DB.prepare(`
+            SELECT model, year, price_cents FROM reference_prices
+            WHERE model IN (${chunk.map(() => '?').join(', ')})
+        `).bind(...chunk).all<Pick<ReferencePrice, 'model' | 'year' | 'price_cents'>>();
+
+        for (const row of results) {
+            const key = referenceKey(row.model, row.year);
+            if (!pricesByKey.has(key)) pricesByKey.set(key, []);
+            pricesByKey.get(key)!.push(row.price_cents / 100);
+        }
+    }
+
+    return new Map(Array.from(pricesByKey.entries()).map(([key, prices]) => [key, getMedian(prices)]));
+}
+
+/**
+ * How an ad's price compares to its reference price
+ */
+export function compareToReference(
+    ad: { model: string | null; year: number | null; price_cents: number | null },
+    references: Map<string, number>
+): ReferenceComparison {
+    const reference = ad.model && ad.year ? references.get(referenceKey(ad.model, ad.year)) : undefined;
+    if (!reference || !ad.price_cents) {
+        return { reference_price: reference ?? null, pct_vs_reference: null };
+    }
+
+    return {
+        reference_price: reference,
+        pct_vs_reference: Math.round((ad.price_cents / 100 / reference - 1) * 1000) / 10,
+    };
+}
@@ -0,0 +1,245 @@
+/**
+ * Reposts Service
+ * Fingerprints new ads to link a car deleted and published again (under a new
+ * list_id) to its earlier publication, carrying over the price history
+ */
+
+import { Env, Listing, Ad, Alert } from '../types';
+
+// Earlier ads removed longer ago than this are not considered
+const REPOST_WINDOW = '-60 days';
+
+// Minimum fingerprint score (0..1) to link two ads
+const MATCH_THRESHOLD = 0.6;
+
+// Mileage may grow a bit between publications, or be retyped
+const MILEAGE_TOLERANCE_KM = 2000;
+const MILEAGE_TOLERANCE_RATIO = 0.03;
+
+// Price may move between publications (usually down)
+const PRICE_TOLERANCE_RATIO = 0.2;
+
+// D1 caps bound parameters per statement
+const CHUNK_SIZE = 90;
+
+export interface RepostMatch {
+    list_id: string;
+    repost_of: string;
+    repost_root: string;
+    repost_count: number;
+    original_price_cents: number | null;
+    score: number;
+}
+
+/**
+ * Stable part of an OLX image URL (file name without size folders or extension),
+ * so the same photo matches across thumbnail sizes
+ */
+export function thumbnailKey(url: string | null): string | null {
+    if (!url) return null;
+    const file = url.split('?')[0].split('/').pop() || '';
+    const key = file.replace(/\.[a-z0-9]+$/i, '');
+    return key.length >= 6 ? key.toLowerCase() : null;
+}
+
+function normalize(text: string | null): string {
+    return (text || '').trim().toLowerCase();
+}
+
+/**
+ * Fingerprint similarity of a new listing and an earlier ad, 0..1.
+ * Model and year must already be equal. A known mismatch on mileage,
+ * municipality or price rules the pair out.
+ */
+export function scoreRepostCandidate(listing: Listing, candidate: Ad): number {
+    let score = 0;
+
+    if (listing.mileage && candidate.mileage) {
+        const tolerance = Math.max(MILEAGE_TOLERANCE_KM, candidate.mileage * MILEAGE_TOLERANCE_RATIO);
+        if (Math.abs(listing.mileage - candidate.mileage) > tolerance) return 0;
+        score += 0.35;
+    }
+
+    if (listing.municipality && candidate.municipality) {
+        if (normalize(listing.municipality) !== normalize(candidate.municipality)) return 0;
+        score += 0.2;
+    }
+
+    if (listing.price_cents && candidate.price_cents) {
+        const ratio = Math.abs(listing.price_cents - candidate.price_cents) / candidate.price_cents;
+        if (ratio > PRICE_TOLERANCE_RATIO) return 0;
+        score += 0.25 * (1 - ratio / PRICE_TOLERANCE_RATIO);
+    }
+
+    const thumb = thumbnailKey(listing.thumbnail_url);
+    if (thumb && thumb === thumbnailKey(candidate.thumbnail_url)) {
+        score += 0.4;
+    }
+
+    if (listing.version && normalize(listing.version) === normalize(candidate.version)) score += 0.1;
+    if (listing.color && normalize(listing.color) === normalize(candidate.color)) score += 0.1;
+
+    return Math.min(1, score);
+}
+
+/**
+ * Earlier ads with the same model and year that could have been republished,
+ * not already succeeded by a repost: removed recently, or gone from some scan
+ * (missed by a search, or an ad of this search). The caller drops the ones
+ * the current scan still lists.
+ */
+async function getCandidates(env: Env, searchId: string, model: string, year: number): Promise<Ad[]> {
+    const { results } = await env.DB.prepare(`
+        SELECT * FROM ads
+        WHERE model = ? AND year = ?
+          AND (
+            (removed_at IS NOT NULL AND datetime(removed_at) > datetime('now', ?))
+            OR (removed_at IS NULL AND EXISTS (
+                SELECT 1 FROM alerts
+                WHERE alerts.list_id = ads.list_id
+                  AND (alerts.removed_at IS NOT NULL OR alerts.missed_scans > 0 OR alerts.search_id = ?)
+            ))
+          )
+          AND NOT EXISTS (SELECT 1 FROM ads next WHERE next.repost_of = ads.list_id)
+        ORDER BY first_seen_at DESC
+        LIMIT 200
+    `).bind(model, year, REPOST_WINDOW, searchId).all<Ad>();
+
+    return results;
+}
+
+/**
+ * Price of the first publication of an ad (its carried-over history starts there)
+ */
+async function getOriginalPrice(env: Env, ad: Ad): Promise<number | null> {
+    if (ad.original_price_cents) return ad.original_price_cents;
+
+    const first = await env.DB.prepare(
+        'SELECT price_value FROM price_history WHERE list_id = ? ORDER BY id ASC LIMIT 1'
+    ).bind(ad.list_id).first<{ price_value: number }>();
+
+    return first ? Math.round(first.price_value * 100) : ad.price_cents;
+}
+
+/**
+ * Find the earlier publication of each listing of a search's scan, if any.
+ * scannedIds are all the ads of that scan: an ad it still lists was not
+ * republished. Listings already known as ads keep the link made when they
+ * were first seen.
+ */
+export async function findReposts(
+    env: Env,
+    searchId: string,
+    listings: Listing[],
+    scannedIds: Iterable<string>
+): Promise<Map<string, RepostMatch>> {
+    const matches = new Map<string, RepostMatch>();
+    if (listings.length === 0) return matches;
+
+    const known = new Map<string, Ad>();
+    const ids = listings.map(l => l.list_id);
+    for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + CHUNK_SIZE);
+        const { results } = await env.DB.prepare(
+            `SELECT * FROM ads WHERE list_id IN (${chunk.map(() => '?').join(', ')})`
+        ).bind(...chunk).all<Ad>();
+        results.forEach(ad => known.set(ad.list_id, ad));
+    }
+
+    // Group unseen listings by model/year, the part of the fingerprint that must match exactly
+    const groups = new Map<string, Listing[]>();
+    for (const listing of listings) {
+        const ad = known.get(listing.list_id);
+        if (ad) {
+            if (ad.repost_of) {
+                matches.set(ad.list_id, {
+                    list_id: ad.list_id,
+                    repost_of: ad.repost_of,
+                    repost_root: ad.repost_root || ad.repost_of,
+                    repost_count: ad.repost_count,
+                    original_price_cents: ad.original_price_cents,
+                    score: 1,
+                });
+            }
+            continue;
+        }
+        if (!listing.model || !listing.year) continue;
+
+        const key = `${listing.model}|${listing.year}`;
+        groups.set(key, [...(groups.get(key) || []), listing]);
+    }
+
+    const listed = new Set([...ids, ...scannedIds]);
+    for (const group of groups.values()) {
+        const candidates = (await getCandidates(env, searchId, group[0].model!, group[0].year!))
+            .filter(ad => !listed.has(ad.list_id));
+        const taken = new Set<string>();
+
+        for (const listing of group) {
+            let best: { ad: Ad; score: number } | null = null;
+            for (const ad of candidates) {
+                if (taken.has(ad.list_id)) continue;
+                const score = scoreRepostCandidate(listing, ad);
+                if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+                    best = { ad, score };
+                }
+            }
+            if (!best) continue;
+
+            taken.add(best.ad.list_id);
+            matches.set(listing.list_id, {
+                list_id: listing.list_id,
+                repost_of: best.ad.list_id,
+                repost_root: best.ad.repost_root || best.ad.list_id,
+                repost_count: (best.ad.repost_count || 0) + 1,
+                original_price_cents: await getOriginalPrice(env, best.ad),
+                score: Math.round(best.score * 100) / 100,
+            });
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Store the links on the ads and copy the price history of the earlier
+ * publication to the new list_id. Must run after the ads exist and before
+ * the first price of the new ads is recorded, so their history stays in order.
+ */
+export async function linkReposts(env: Env, matches: RepostMatch[]): Promise<void> {
+    if (matches.length === 0) return;
+
+    const linkStmt = env.DB.prepare(`
+        UPDATE ads SET repost_of = ?, repost_root = ?, repost_count = ?, original_price_cents = ?
+        WHERE list_id = ? AND repost_of IS NULL
+    `);
+    const copyHistoryStmt = env.DB.prepare(`
+        INSERT INTO price_history (list_id, search_id, price, price_value, first_seen_at, last_seen_at)
+        SELECT ?, search_id, price, price_value, first_seen_at, last_seen_at
+        FROM price_history
+        WHERE list_id = ? AND NOT EXISTS (SELECT 1 FROM price_history WHERE list_id = ?)
+        ORDER BY id ASC
+    `);
+
+    await env.DB.batch(matches.flatMap(match => [
+        copyHistoryStmt.bind(match.list_id, match.repost_of, match.list_id),
+        linkStmt.bind(match.repost_of, match.repost_root, match.repost_count, match.original_price_cents, match.list_id),
+    ]));
+}
+
+/**
+ * Short description of a repost, e.g. "Repostado 3x • preço -8%"
+ */
+export function formatRepostSummary(alert: Pick<Alert, 'repost_count' | 'price_cents' | 'original_price_cents'>): string | null {
+    if (!alert.repost_count) return null;
+
+    let summary = `Repostado ${alert.repost_count}x`;
+    if (alert.price_cents && alert.original_price_cents) {
+        const change = Math.round(((alert.price_cents - alert.original_price_cents) / alert.original_price_cents) * 100);
+        if (change !== 0) {
+            summary += ` • preço ${change > 0 ? '+' : ''}${change}%`;
+        }
+    }
+
+    return summary;
+}
@@ -0,0 +1,56 @@
+/**
+ * Retention Service
+ * Deletes old rows of the fast-growing tables to keep the D1 database bounded
+ */
+
+import { Env } from '../types';
+
+interface RetentionPolicy {
+    table: string;
+    column: string;  // Timestamp the age is measured on
+    days: number;
+    where?: string;  // Extra condition on top of the age check
+}
+
+// Rows deleted per table and run; a backlog is cleared over the next runs
+const DELETE_BATCH_SIZE = 5000;
+
+const RETENTION_POLICIES: RetentionPolicy[] = [
+    // Market snapshot: ads no scan has returned for a month
+    { table: 'listings', column: 'last_seen_at', days: 30 },
+    // Prices of ads that never became alerts (alerted ads keep their full history)
+    { table: 'price_history', column: 'last_seen_at', days: 90, where: 'list_id NOT IN (SELECT list_id FROM ads)' },
+    { table: 'execution_logs', column: 'created_at', days: 90 },
+    { table: 'webhook_deliveries', column: 'created_at', days: 30 },
+    // Restored statuses of ads that never came back as alerts
+    { table: 'pending_alert_statuses', column: 'created_at', days: 90 },
+];
+
+export interface RetentionResult {
+    table: string;
+    days: number;
+    deleted: number;
+}
+
+/**
+ * Apply every retention policy once. Timestamps are compared through datetime()
+ * since tables mix ISO strings and SQLite's datetime('now') format.
+ */
+export async function applyRetention(env: Env): Promise<RetentionResult[]> {
+    const results: RetentionResult[] = [];
+
+    for (const policy of RETENTION_POLICIES) {
+        const result = await env.DB.prepare(`
+            DELETE FROM ${policy.table}
+            WHERE rowid IN (
+                SELECT rowid FROM ${policy.table}
+                WHERE datetime(${policy.column}) < datetime('now', ?) ${policy.where ? `AND ${policy.where}` : ''}
+                LIMIT ?
+            )
+        `).bind(`-${policy.days} days`, DELETE_BATCH_SIZE).run();
+
+        results.push({ table: policy.table, days: policy.days, deleted: result.meta.changes });
+    }
+
+    return results;
+}
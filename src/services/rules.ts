@@ -0,0 +1,155 @@
+/**
+ * Rules Service
+ * Per-search listing filters evaluated during scans, before alerts are created
+ */
+
+import { Listing, SavedSearchRow, SearchRules } from '../types';
+
+export interface RuleResult {
+    passed: boolean;
+    reason?: string;
+}
+
+/**
+ * Lowercase and strip accents so "São Leopoldo" matches "sao leopoldo"
+ */
+function normalize(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+function parseList(json: string | null | undefined): string[] {
+    try {
+        const value = JSON.parse(json || '[]');
+        return Array.isArray(value) ? value.map(String) : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Build the full rule set of a search from its `rules` JSON and ignore-list columns
+ */
+export function parseSearchRules(row: SavedSearchRow): SearchRules {
+    let rules: SearchRules = {};
+    try {
+        rules = JSON.parse(row.rules || '{}') || {};
+    } catch {
+        rules = {};
+    }
+
+    return {
+        ...rules,
+        ignored_brands: parseList(row.ignored_brands),
+        ignored_models: parseList(row.ignored_models),
+    };
+}
+
+/**
+ * Validate a rules payload from the API. Returns an error message or null.
+ */
+export function validateRules(rules: unknown): string | null {
+    if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+        return 'rules must be an object';
+    }
+
+    const numeric = ['min_price', 'max_price', 'max_mileage', 'min_year', 'max_year'];
+    const lists = [
+        'include_municipalities', 'exclude_municipalities',
+        'include_keywords', 'exclude_keywords',
+    ];
+
+    for (const [key, value] of Object.entries(rules)) {
+        if (numeric.includes(key)) {
+            if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+                return `rules.${key} must be a non-negative number or null`;
+            }
+        } else if (lists.includes(key)) {
+            if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+                return `rules.${key} must be an array of strings`;
+            }
+        } else {
+            return `Unknown rule: ${key}`;
+        }
+    }
+
+    const r = rules as SearchRules;
+    if (r.min_price != null && r.max_price != null && r.min_price > r.max_price) {
+        return 'rules.min_price must not exceed rules.max_price';
+    }
+    if (r.min_year != null && r.max_year != null && r.min_year > r.max_year) {
+        return 'rules.min_year must not exceed rules.max_year';
+    }
+
+    return null;
+}
+
+/**
+ * Evaluate a single listing against a rule set.
+ * Listings missing the field a rule looks at (no price, no mileage...) pass that rule.
+ */
+export function evaluateRules(listing: Listing, rules: SearchRules): RuleResult {
+    const price = listing.price_cents !== null ? listing.price_cents / 100 : null;
+
+    if (rules.min_price != null && price !== null && price < rules.min_price) {
+        return { passed: false, reason: 'price below min_price' };
+    }
+    if (rules.max_price != null && price !== null && price > rules.max_price) {
+        return { passed: false, reason: 'price above max_price' };
+    }
+    if (rules.max_mileage != null && listing.mileage !== null && listing.mileage > rules.max_mileage) {
+        return { passed: false, reason: 'mileage above max_mileage' };
+    }
+    if (rules.min_year != null && listing.year !== null && listing.year < rules.min_year) {
+        return { passed: false, reason: 'year below min_year' };
+    }
+    if (rules.max_year != null && listing.year !== null && listing.year > rules.max_year) {
+        return { passed: false, reason: 'year above max_year' };
+    }
+
+    const municipality = listing.municipality ? normalize(listing.municipality) : null;
+    if (rules.include_municipalities?.length && municipality !== null) {
+        if (!rules.include_municipalities.some(m => normalize(m) === municipality)) {
+            return { passed: false, reason: 'municipality not included' };
+        }
+    }
+    if (rules.exclude_municipalities?.length && municipality !== null) {
+        if (rules.exclude_municipalities.some(m => normalize(m) === municipality)) {
+            return { passed: false, reason: 'municipality excluded' };
+        }
+    }
+
+    const subject = normalize(listing.subject || '');
+    if (rules.include_keywords?.length) {
+        if (!rules.include_keywords.some(k => subject.includes(normalize(k)))) {
+            return { passed: false, reason: 'missing required keyword' };
+        }
+    }
+    if (rules.exclude_keywords?.length) {
+        const hit = rules.exclude_keywords.find(k => subject.includes(normalize(k)));
+        if (hit) {
+            return { passed: false, reason: `excluded keyword "${hit}"` };
+        }
+    }
+
+    const brand = normalize(listing.brand || (listing.model || '').split(/\s+/)[0] || '');
+    if (rules.ignored_brands?.length && brand) {
+        if (rules.ignored_brands.some(b => normalize(b) === brand)) {
+            return { passed: false, reason: 'brand ignored' };
+        }
+    }
+    if (rules.ignored_models?.length && listing.model) {
+        const model = normalize(listing.model);
+        if (rules.ignored_models.some(m => normalize(m) === model)) {
+            return { passed: false, reason: 'model ignored' };
+        }
+    }
+
+    return { passed: true };
+}
+
+/**
+ * Keep only listings that pass every rule
+ */
+export function applySearchRules(listings: Listing[], rules: SearchRules): Listing[] {
+    return listings.filter(listing => evaluateRules(listing, rules).passed);
+}
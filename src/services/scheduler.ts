@@ -0,0 +1,165 @@
+/**
+ * Scheduler Service
+ * Picks the searches that are due on each cron tick and scans them within a run budget
+ */
+
+import { Env, SavedSearchRow } from '../types';
+
+// Default budget for a single scheduled run
+const DEFAULT_MAX_DURATION_MS = 25_000;
+const DEFAULT_MAX_REQUESTS = 40;
+
+// Rough cost of one scan: buildId fetch + MAX_PAGES data pages
+const ESTIMATED_REQUESTS_PER_SCAN = 6;
+
+export interface ScanBudget {
+    maxDurationMs: number;
+    maxRequests: number;
+}
+
+export interface ScheduledRunResult {
+    due: number;
+    scanned: Array<{ searchId: string; searchName: string; newCount: number; requestsCount: number; error?: string }>;
+    deferred: string[];
+    duration_ms: number;
+    requests_count: number;
+}
+
+/**
+ * Parse a SQLite datetime ("YYYY-MM-DD HH:MM:SS", UTC) or ISO string to epoch ms
+ */
+export function parseDbTimestamp(value: string | null): number | null {
+    if (!value) return null;
+    const iso = /[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value.replace(' ', 'T')}Z`;
+    const ts = Date.parse(iso);
+    return Number.isNaN(ts) ? null : ts;
+}
+
+/**
+ * How many ms past its next scheduled check a search is.
+ * Never-checked searches are infinitely overdue; negative means not due yet.
+ */
+export function getOverdueMs(search: SavedSearchRow, now: number): number {
+    const lastChecked = parseDbTimestamp(search.last_checked_at);
+    if (lastChecked === null) return Number.POSITIVE_INFINITY;
+
+    const periodMs = (search.check_period_minutes || 60) * 60 * 1000;
+    return now - (lastChecked + periodMs);
+}
+
+/**
+ * Select searches to scan, most overdue first.
+ * (A manual POST /api/scan scans every search, due or not, without going through here.)
+ */
+export function selectDueSearches(searches: SavedSearchRow[], now: number): SavedSearchRow[] {
+    return searches
+        .map(search => ({ search, overdue: getOverdueMs(search, now) }))
+        .filter(({ overdue }) => overdue >= 0)
+        .sort((a, b) => b.overdue - a.overdue)
+        .map(({ search }) => search);
+}
+
+/**
+ * Record a search that was skipped because the run budget was exhausted
+ */
+async function logDeferred(env: Env, searchId: string): Promise<void> {
+    try {
+        await env.DB.prepare(`
+            INSERT INTO execution_logs
+            (search_id, sp_min, sp_max, listings_count, new_listings_count, first_list_id, stop_reason, duration_ms, requests_count, error_message, created_at)
+            VALUES (?, 0, 0, 0, 0, NULL, 'budget', 0, 0, 'Deferred to next run (budget exhausted)', datetime('now'))
+        `).bind(searchId).run();
+    } catch (err) {
+        console.error('Failed to log deferred search:', err);
+    }
+}
+
+/**
+ * Scan due searches (of every user, or only those options.userId can edit) until the time
+ * or request budget runs out. Searches that do not fit are deferred and logged
+ * with stop_reason 'budget'. Requests left over go to the deep crawl of crawl-enabled searches.
+ */
+export async function runScheduledScans(
+    env: Env,
+    options: { budget?: Partial<ScanBudget>; userId?: string } = {}
+): Promise<ScheduledRunResult> {
+    const { scanSearch } = await import('./diff-engine');
+    const { CRAWL_PAGES_PER_RUN } = await import('./crawler');
+    const { MAX_ENRICHED_PER_SCAN } = await import('./ad-details');
+
+    const budget: ScanBudget = {
+        maxDurationMs: options.budget?.maxDurationMs ?? DEFAULT_MAX_DURATION_MS,
+        maxRequests: options.budget?.maxRequests ?? DEFAULT_MAX_REQUESTS,
+    };
+
+    const startTime = Date.now();
+    const { EDITABLE_SEARCHES_SQL } = await import('./sharing');
+    const { results } = options.userId === undefined
+        ? await env.DB.prepare('SELECT * FROM saved_searches').all<SavedSearchRow>()
+        : await env.DB.prepare(`SELECT * FROM saved_searches WHERE id IN ${EDITABLE_SEARCHES_SQL}`)
+            .bind(options.userId, options.userId)
+            .all<SavedSearchRow>();
+
+    const due = selectDueSearches(results, startTime);
+    console.log(`Scheduler: ${due.length}/${results.length} searches due`);
+
+    const result: ScheduledRunResult = {
+        due: due.length,
+        scanned: [],
+        deferred: [],
+        duration_ms: 0,
+        requests_count: 0,
+    };
+
+    for (const [index, search] of due.entries()) {
+        const elapsed = Date.now() - startTime;
+        const outOfTime = elapsed >= budget.maxDurationMs;
+        const outOfRequests = result.requests_count + ESTIMATED_REQUESTS_PER_SCAN > budget.maxRequests;
+
+        // Always scan at least one search so a tight budget cannot starve the queue
+        if (result.scanned.length > 0 && (outOfTime || outOfRequests)) {
+            result.deferred.push(search.id);
+            await logDeferred(env, search.id);
+            continue;
+        }
+
+        // Deep crawl only gets the requests left after every remaining due quick scan
+        const spareRequests = budget.maxRequests - result.requests_count
+            - ESTIMATED_REQUESTS_PER_SCAN * (due.length - index);
+        const crawlPages = search.crawl_enabled ? Math.max(0, Math.min(CRAWL_PAGES_PER_RUN, spareRequests)) : 0;
+        // and detail pages of new alerts whatever is left after the crawl
+        const enrichAds = search.enrich_enabled ? Math.max(0, Math.min(MAX_ENRICHED_PER_SCAN, spareRequests - crawlPages)) : 0;
+
+        try {
+            const scan = await scanSearch(env, search, {
+                crawlPages,
+                enrichAds,
+                deadline: startTime + budget.maxDurationMs,
+            });
+            result.requests_count += scan.requestsCount;
+            result.scanned.push({
+                searchId: search.id,
+                searchName: search.name,
+                newCount: scan.newCount,
+                requestsCount: scan.requestsCount,
+            });
+        } catch (error) {
+            console.error(`Error scanning ${search.name}:`, error);
+            result.requests_count += ESTIMATED_REQUESTS_PER_SCAN;
+            result.scanned.push({
+                searchId: search.id,
+                searchName: search.name,
+                newCount: 0,
+                requestsCount: 0,
+                error: String(error),
+            });
+        }
+    }
+
+    result.duration_ms = Date.now() - startTime;
+    if (result.deferred.length > 0) {
+        console.log(`Scheduler: deferred ${result.deferred.length} searches (budget exhausted)`);
+    }
+
+    return result;
+}
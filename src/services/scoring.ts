@@ -0,0 +1,259 @@
+/**
+ * Scoring Service
+ * Ranks alerts as opportunities against their market group, using per-search weights
+ */
+
+import { Alert, OpportunityWeights, ScoreComponent, ScoredOpportunity } from '../types';
+import { MarketSample } from './market';
+import { compareToReference, referenceKey } from './reference-prices';
+
+export const DEFAULT_WEIGHTS: OpportunityWeights = { price: 70, km: 20, recency: 10, year: 0 };
+
+// Qualification thresholds (ratios against the group median)
+const PRICE_RATIO_THRESHOLD = 0.92;       // Price alone is enough below this
+const PRICE_RATIO_WITH_KM_THRESHOLD = 0.95;
+const KM_RATIO_THRESHOLD = 0.90;          // ...when mileage is also below this
+const LOW_KM_BADGE_RATIO = 0.85;
+
+// Recency points decay linearly to zero over a week
+const RECENCY_WINDOW_HOURS = 24 * 7;
+// Year points per model year newer than the group median
+const YEAR_POINTS_PER_YEAR = 10;
+
+export interface ScoringOptions {
+    weights?: Partial<OpportunityWeights>;
+    minGroupSize: number;
+    market?: MarketSample[]; // Population the medians are computed over (defaults to the scored alerts while empty)
+    references?: Map<string, number>; // Reference prices by referenceKey (see getReferencePrices)
+    now?: number;
+}
+
+interface GroupStats {
+    priceMedian?: number;
+    kmMedian?: number;
+    yearMedian?: number;
+}
+
+/**
+ * Parse the stored opportunity_weights JSON, falling back to defaults per key
+ */
+export function parseWeights(json: string | null | undefined): OpportunityWeights {
+    try {
+        const parsed = JSON.parse(json || '{}') || {};
+        const weights = { ...DEFAULT_WEIGHTS };
+        for (const key of Object.keys(DEFAULT_WEIGHTS) as Array<keyof OpportunityWeights>) {
+            if (typeof parsed[key] === 'number' && parsed[key] >= 0) {
+                weights[key] = parsed[key];
+            }
+        }
+        return weights;
+    } catch {
+        return { ...DEFAULT_WEIGHTS };
+    }
+}
+
+/**
+ * Validate an opportunity_weights payload from the API. Returns an error message or null.
+ */
+export function validateWeights(weights: unknown): string | null {
+    if (typeof weights !== 'object' || weights === null || Array.isArray(weights)) {
+        return 'opportunity_weights must be an object';
+    }
+    for (const [key, value] of Object.entries(weights)) {
+        if (!(key in DEFAULT_WEIGHTS)) {
+            return `Unknown weight: ${key}`;
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+            return `opportunity_weights.${key} must be a non-negative number`;
+        }
+    }
+    return null;
+}
+
+export function getMedian(values: number[]): number {
+    const arr = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(arr.length / 2);
+    return arr.length % 2 ? arr[mid] : (arr[mid - 1] + arr[mid]) / 2;
+}
+
+function priceOf(alert: MarketSample): number {
+    return alert.price_cents ? alert.price_cents / 100 : 0;
+}
+
+function modelKey(alert: MarketSample): string {
+    return alert.model || 'Desconhecido';
+}
+
+function brandKey(alert: MarketSample): string {
+    return alert.brand || modelKey(alert).split(' ')[0] || 'Desconhecido';
+}
+
+/**
+ * Compute medians for every group key with at least minGroupSize samples
+ */
+function buildGroupStats(alerts: MarketSample[], keyOf: (a: MarketSample) => string | null, minGroupSize: number): Map<string, GroupStats> {
+    const samples = new Map<string, { prices: number[]; kms: number[]; years: number[] }>();
+
+    for (const alert of alerts) {
+        const key = keyOf(alert);
+        if (key === null) continue;
+        if (!samples.has(key)) samples.set(key, { prices: [], kms: [], years: [] });
+        const group = samples.get(key)!;
+
+        const price = priceOf(alert);
+        if (price > 0) group.prices.push(price);
+        if (alert.mileage && alert.mileage > 0) group.kms.push(alert.mileage);
+        if (alert.year) group.years.push(alert.year);
+    }
+
+    const stats = new Map<string, GroupStats>();
+    for (const [key, group] of samples) {
+        stats.set(key, {
+            priceMedian: group.prices.length >= minGroupSize ? getMedian(group.prices) : undefined,
+            kmMedian: group.kms.length >= minGroupSize ? getMedian(group.kms) : undefined,
+            yearMedian: group.years.length >= minGroupSize ? getMedian(group.years) : undefined,
+        });
+    }
+    return stats;
+}
+
+function component(value: number | null, points: number, weight: number): ScoreComponent {
+    return {
+        value: value === null ? null : Math.round(value * 1000) / 1000,
+        points: Math.round(points * 10) / 10,
+        weight,
+        contribution: Math.round((points * weight) / 10) / 10,
+    };
+}
+
+/**
+ * Score alerts as opportunities.
+ *
+ * Each ad is compared to the tightest group with enough samples in the
+ * market (options.market, or the alerts themselves): same model and year,
+ * then same model, then same brand. When no group is big enough, the
+ * imported reference price of the model/year (options.references) stands
+ * in for the median. Qualifying ads
+ * get a weighted score where each component is worth "points":
+ * - price:   % below the group median price
+ * - km:      % below the group median mileage
+ * - recency: 100 when just listed, decaying to 0 after a week
+ * - year:    YEAR_POINTS_PER_YEAR per year newer than the group median
+ * and score = sum(points * weight / 100).
+ */
+export function scoreOpportunities(alerts: Alert[], options: ScoringOptions): ScoredOpportunity[] {
+    const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+    const now = options.now ?? Date.now();
+    const { minGroupSize } = options;
+    const market = options.market?.length ? options.market : alerts;
+    const references = options.references ?? new Map<string, number>();
+
+    const modelYearStats = buildGroupStats(
+        market,
+        a => (a.year ? `${modelKey(a)}|${a.year}` : null),
+        minGroupSize
+    );
+    const modelStats = buildGroupStats(market, modelKey, minGroupSize);
+    const brandStats = buildGroupStats(market, brandKey, minGroupSize);
+
+    const opportunities: ScoredOpportunity[] = [];
+
+    for (const alert of alerts) {
+        // Sold/removed ads still feed the medians but are not opportunities
+        if (alert.removed_at) continue;
+
+        const price = priceOf(alert);
+        if (price <= 0) continue;
+
+        const mdl = modelKey(alert);
+        const brnd = brandKey(alert);
+        const modelYear = alert.year ? modelYearStats.get(`${mdl}|${alert.year}`) : undefined;
+        const model = modelStats.get(mdl);
+        const brand = brandStats.get(brnd);
+
+        // Price reference: tightest group with a median
+        let comparison: ScoredOpportunity['comparison'] | undefined;
+        let medianPrice: number | undefined;
+        if (modelYear?.priceMedian) {
+            comparison = 'model_year';
+            medianPrice = modelYear.priceMedian;
+        } else if (model?.priceMedian) {
+            comparison = 'model';
+            medianPrice = model.priceMedian;
+        } else if (brand?.priceMedian) {
+            comparison = 'brand';
+            medianPrice = brand.priceMedian;
+        } else if (alert.year && references.has(referenceKey(mdl, alert.year))) {
+            comparison = 'reference';
+            medianPrice = references.get(referenceKey(mdl, alert.year));
+        }
+        if (!medianPrice || !comparison) continue;
+
+        const medianKm = modelYear?.kmMedian || model?.kmMedian || brand?.kmMedian;
+        const medianYear = model?.yearMedian || brand?.yearMedian;
+        const km = alert.mileage || 0;
+
+        const priceRatio = price / medianPrice;
+        const kmRatio = (medianKm && km > 0) ? km / medianKm : 1;
+
+        const explanations: string[] = [];
+        const badges: string[] = [];
+
+        if (priceRatio <= PRICE_RATIO_THRESHOLD) {
+            const pctBelow = Math.round((1 - priceRatio) * 100);
+            explanations.push(comparison === 'model_year'
+                ? `${pctBelow}% abaixo do preço médio do mesmo ano`
+                : comparison === 'reference'
+                    ? `${pctBelow}% abaixo da tabela de referência`
+                    : `${pctBelow}% abaixo do preço médio`);
+            badges.push('💰 Preço Bom');
+        } else if (priceRatio <= PRICE_RATIO_WITH_KM_THRESHOLD && medianKm && km > 0 && kmRatio <= KM_RATIO_THRESHOLD) {
+            explanations.push('Preço e KM abaixo da média');
+            badges.push('💎 Achado');
+        } else {
+            continue;
+        }
+
+        if (medianKm && km > 0 && kmRatio <= LOW_KM_BADGE_RATIO) {
+            badges.push('📉 Baixo KM');
+        }
+
+        const hoursAgo = (now - new Date(alert.created_at).getTime()) / (1000 * 60 * 60);
+        if (hoursAgo < 24) {
+            badges.push('🆕 Novo');
+        }
+
+        const yearDiff = (medianYear && alert.year) ? alert.year - medianYear : 0;
+        if (yearDiff >= 2) {
+            explanations.push(`${Math.round(yearDiff)} anos mais novo que a média`);
+        }
+
+        const breakdown = {
+            price: component(priceRatio, (1 - priceRatio) * 100, weights.price),
+            km: component(medianKm && km > 0 ? kmRatio : null, medianKm && km > 0 ? (1 - kmRatio) * 100 : 0, weights.km),
+            recency: component(
+                hoursAgo,
+                Math.max(0, 1 - hoursAgo / RECENCY_WINDOW_HOURS) * 100,
+                weights.recency
+            ),
+            year: component(medianYear && alert.year ? yearDiff : null, yearDiff * YEAR_POINTS_PER_YEAR, weights.year),
+        };
+
+        const score = Object.values(breakdown).reduce((sum, c) => sum + c.contribution, 0);
+
+        opportunities.push({
+            ...alert,
+            brand: brnd,
+            median: medianPrice,
+            comparison,
+            pctBelowMedian: Math.round((1 - priceRatio) * 100),
+            ...compareToReference(alert, references),
+            score: Math.round(score * 10) / 10,
+            score_breakdown: breakdown,
+            explanation: explanations.join('. '),
+            badges,
+        });
+    }
+
+    return opportunities.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,196 @@
+/**
+ * Sharing Service
+ * Per-search roles (owner, editor, viewer) and signed, expiring read-only share links
+ */
+
+import { Env, User, SearchRole, SearchMember, SearchShare } from '../types';
+
+// Higher rank includes every permission of the lower ones
+const ROLE_RANK: Record<SearchRole, number> = {
+    viewer: 1,   // Read the search, its alerts and stats
+    editor: 2,   // + change filters/rules, alert statuses, channels, trigger scans
+    owner: 3,    // + delete, manage members and share links
+};
+
+export const MEMBER_ROLES: SearchMember['role'][] = ['editor', 'viewer'];
+
+export const DEFAULT_SHARE_TTL_HOURS = 24 * 7;
+export const MAX_SHARE_TTL_HOURS = 24 * 30;
+
+/**
+ * SQL subquery of the search ids a user can read (owned or shared with them).
+ * Binds the user id twice.
+ */
+export const ACCESSIBLE_SEARCHES_SQL =
+    '(SELECT id FROM saved_searches WHERE user_id = ? UNION SELECT search_id FROM search_members WHERE user_id = ?)';
+
+/**
+ * SQL subquery of the search ids a user can edit (owned, or shared as editor).
+ * Binds the user id twice.
+ */
+export const EDITABLE_SEARCHES_SQL =
+    "(SELECT id FROM saved_searches WHERE user_id = ? UNION SELECT search_id FROM search_members WHERE user_id = ? AND role = 'editor')";
+
+export function hasRole(role: SearchRole | null, required: SearchRole): boolean {
+    return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Role of a user on a search, or null if the search does not exist or is not shared with them
+ */
+export async function getSearchRole(env: Env, searchId: string, user: User): Promise<SearchRole | null> {
+    const row = await env.DB.prepare(`
+        SELECT s.user_id as owner_id, m.role as member_role
+        FROM saved_searches s
+        LEFT JOIN search_members m ON m.search_id = s.id AND m.user_id = ?
+        WHERE s.id = ?
+    `).bind(user.id, searchId).first<{ owner_id: string | null; member_role: SearchMember['role'] | null }>();
+
+    if (!row) return null;
+    if (row.owner_id === user.id) return 'owner';
+    return row.member_role;
+}
+
+export async function listMembers(env: Env, searchId: string): Promise<Array<{ user_id: string; name: string; role: SearchRole }>> {
+    const { results } = await env.DB.prepare(`
+        SELECT u.id as user_id, u.name, 'owner' as role
+        FROM saved_searches s JOIN users u ON u.id = s.user_id
+        WHERE s.id = ?
+        UNION ALL
+        SELECT u.id as user_id, u.name, m.role
+        FROM search_members m JOIN users u ON u.id = m.user_id
+        WHERE m.search_id = ?
+    `).bind(searchId, searchId).all<{ user_id: string; name: string; role: SearchRole }>();
+
+    return results;
+}
+
+/**
+ * Add a member or change their role
+ */
+export async function setMember(env: Env, searchId: string, userId: string, role: SearchMember['role']): Promise<void> {
+    await env.DB.prepare(`
+        INSERT INTO search_members (search_id, user_id, role) VALUES (?, ?, ?)
+        ON CONFLICT(search_id, user_id) DO UPDATE SET role = excluded.role
+    `).bind(searchId, userId, role).run();
+}
+
+export async function removeMember(env: Env, searchId: string, userId: string): Promise<boolean> {
+    const result = await env.DB.prepare(
+        'DELETE FROM search_members WHERE search_id = ? AND user_id = ?'
+    ).bind(searchId, userId).run();
+
+    return result.meta.changes > 0;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(text: string): Uint8Array {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+async function getSigningKey(env: Env): Promise<CryptoKey> {
+    const secret = env.SHARE_LINK_SECRET || env.API_TOKEN;
+    return crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(`share-links:${secret}`),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+    );
+}
+
+/**
+ * Token of a share link: base64url(JSON { id, sid, exp }) + "." + base64url(HMAC-SHA256)
+ */
+async function signShareToken(env: Env, share: SearchShare): Promise<string> {
+    const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify({
+        id: share.id,
+        sid: share.search_id,
+        exp: Math.floor(Date.parse(share.expires_at) / 1000),
+    })));
+    const signature = await crypto.subtle.sign('HMAC', await getSigningKey(env), new TextEncoder().encode(payload));
+
+    return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Create a share link for a search, valid for ttlHours
+ */
+export async function createShare(
+    env: Env,
+    searchId: string,
+    user: User,
+    options: { ttlHours: number; label?: string | null }
+): Promise<SearchShare & { token: string }> {
+    const share: SearchShare = {
+        id: crypto.randomUUID(),
+        search_id: searchId,
+        created_by: user.id,
+        label: options.label || null,
+        expires_at: new Date(Date.now() + options.ttlHours * 60 * 60 * 1000).toISOString(),
+        revoked_at: null,
+        created_at: new Date().toISOString(),
+    };
+
+    await env.DB.prepare(
+        'INSERT INTO search_shares (id, search_id, created_by, label, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ).bind(share.id, share.search_id, share.created_by, share.label, share.expires_at, share.created_at).run();
+
+    return { ...share, token: await signShareToken(env, share) };
+}
+
+export async function listShares(env: Env, searchId: string): Promise<SearchShare[]> {
+    const { results } = await env.DB.prepare(
+        'SELECT * FROM search_shares WHERE search_id = ? ORDER BY created_at DESC'
+    ).bind(searchId).all<SearchShare>();
+
+    return results;
+}
+
+/**
+ * Revoke a share link of one of the given user's owned searches
+ */
+export async function revokeShare(env: Env, shareId: string, user: User): Promise<boolean> {
+    const result = await env.DB.prepare(`
+        UPDATE search_shares SET revoked_at = datetime('now')
+        WHERE id = ? AND revoked_at IS NULL
+          AND search_id IN (SELECT id FROM saved_searches WHERE user_id = ?)
+    `).bind(shareId, user.id).run();
+
+    return result.meta.changes > 0;
+}
+
+/**
+ * Check a share link token. Returns the shared search id, or null when the
+ * signature is wrong, the link expired or it was revoked.
+ */
+export async function verifyShareToken(env: Env, token: string): Promise<string | null> {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    let claims: { id: string; sid: string; exp: number };
+    try {
+        const valid = await crypto.subtle.verify(
+            'HMAC',
+            await getSigningKey(env),
+            base64UrlDecode(signature),
+            new TextEncoder().encode(payload)
+        );
+        if (!valid) return null;
+        claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+    } catch {
+        return null;
+    }
+
+    if (!claims.exp || claims.exp * 1000 < Date.now()) return null;
+
+    const share = await env.DB.prepare(
+        'SELECT search_id FROM search_shares WHERE id = ? AND search_id = ? AND revoked_at IS NULL'
+    ).bind(claims.id, claims.sid).first<{ search_id: string }>();
+
+    return share ? share.search_id : null;
+}
@@ -0,0 +1,211 @@
+/**
+ * Telegram Service
+ * Sends new alerts to registered chats and handles the inline "favorite"/"mute" buttons
+ */
+
+import { Env, Alert, SavedSearchRow, TelegramChat } from '../types';
+import { formatRepostSummary } from './reposts';
+
+const TELEGRAM_API_URL = 'https://api.telegram.org';
+
+// Inline button actions -> alert status (see ALERT_STATUSES in diff-engine)
+const CALLBACK_ACTIONS: Record<string, Alert['status']> = {
+    fav: 'favorite',
+    mute: 'muted',
+};
+
+interface TelegramUpdate {
+    message?: {
+        chat: { id: number };
+        text?: string;
+    };
+    callback_query?: {
+        id: string;
+        data?: string;
+        message?: { chat: { id: number }; message_id: number };
+    };
+}
+
+export function isTelegramEnabled(env: Env): boolean {
+    return Boolean(env.TELEGRAM_BOT_TOKEN);
+}
+
+/**
+ * Call a Bot API method. Throws on HTTP or API errors.
+ */
+export async function callTelegram<T = unknown>(env: Env, method: string, params: Record<string, unknown>): Promise<T> {
+    const response = await fetch(`${TELEGRAM_API_URL}/bot${env.TELEGRAM_BOT_TOKEN}/${method}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params),
+    });
+
+    const data = await response.json<{ ok: boolean; result?: T; description?: string }>();
+    if (!data.ok) {
+        throw new Error(`Telegram ${method} failed: ${data.description || response.status}`);
+    }
+    return data.result as T;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Build the HTML caption of an alert
+ */
+export function formatAlertCaption(alert: Alert, badges: string[] = []): string {
+    const lines: string[] = [];
+
+    const title = alert.alert_type === 'price_drop' ? '📉 Baixou o preço' : '🚗 Novo anúncio';
+    lines.push(`<b>${title}</b>`);
+    lines.push(escapeHtml(alert.subject || alert.model || 'Anúncio'));
+
+    let price = `💰 ${escapeHtml(alert.price || 'Preço não informado')}`;
+    if (alert.alert_type === 'price_drop' && alert.previous_price) {
+        price += ` (antes ${escapeHtml(alert.previous_price)})`;
+    }
+    lines.push(price);
+
+    const repost = formatRepostSummary(alert);
+    if (repost) {
+        lines.push(`🔁 ${escapeHtml(repost)}`);
+    }
+
+    if (alert.mileage) {
+        lines.push(`🛣️ ${alert.mileage.toLocaleString('pt-BR')} km${alert.year ? ` • ${alert.year}` : ''}`);
+    } else if (alert.year) {
+        lines.push(`📅 ${alert.year}`);
+    }
+
+    const location = [alert.municipality, alert.neighbourhood].filter(Boolean).join(' • ');
+    if (location) {
+        lines.push(`📍 ${escapeHtml(location)}`);
+    }
+
+    if (badges.length > 0) {
+        lines.push(badges.map(escapeHtml).join(' '));
+    }
+
+    return lines.join('\n');
+}
+
+function buildKeyboard(alert: Alert) {
+    return {
+        inline_keyboard: [
+            [
+                { text: '⭐ Favoritar', callback_data: `fav:${alert.id}` },
+                { text: '🔇 Silenciar', callback_data: `mute:${alert.id}` },
+            ],
+            [{ text: '🔗 Abrir na OLX', url: alert.ad_url }],
+        ],
+    };
+}
+
+/**
+ * Opportunity badges of the given alerts, scored against their search's market
+ */
+async function getOpportunityBadges(env: Env, search: SavedSearchRow, alerts: Alert[]): Promise<Map<number, string[]>> {
+    const { scoreOpportunities, parseWeights } = await import('./scoring');
+    const { getMarketSamples } = await import('./market');
+
+    const { results } = await env.DB.prepare(
+        'SELECT * FROM alerts WHERE search_id = ?'
+    ).bind(search.id).all<Alert>();
+
+    const ids = new Set(alerts.map(a => a.id));
+    const scored = scoreOpportunities(results, {
+        weights: parseWeights(search.opportunity_weights),
+        minGroupSize: search.min_group_size || 3,
+        market: await getMarketSamples(env, 'search_id = ?', [search.id]),
+    });
+
+    return new Map(scored.filter(o => ids.has(o.id)).map(o => [o.id, o.badges]));
+}
+
+/**
+ * Send one message per alert to every chat registered for the search
+ */
+export async function notifyTelegram(env: Env, search: SavedSearchRow, alerts: Alert[]): Promise<void> {
+    if (!isTelegramEnabled(env) || alerts.length === 0) return;
+
+    const { results: chats } = await env.DB.prepare(
+        'SELECT * FROM telegram_chats WHERE search_id = ?'
+    ).bind(search.id).all<TelegramChat>();
+
+    if (chats.length === 0) return;
+
+    const badges = await getOpportunityBadges(env, search, alerts);
+
+    for (const chat of chats) {
+        for (const alert of alerts) {
+            const caption = formatAlertCaption(alert, badges.get(alert.id));
+            const common = {
+                chat_id: chat.chat_id,
+                parse_mode: 'HTML',
+                reply_markup: buildKeyboard(alert),
+            };
+
+            try {
+                if (alert.thumbnail_url) {
+                    await callTelegram(env, 'sendPhoto', { ...common, photo: alert.thumbnail_url, caption });
+                } else {
+                    await callTelegram(env, 'sendMessage', { ...common, text: caption });
+                }
+            } catch (error) {
+                console.error(`Telegram send to ${chat.chat_id} failed:`, error);
+            }
+        }
+    }
+}
+
+/**
+ * Whether a chat is registered for the search of an alert. Callback data comes
+ * from the client, so a button press is only trusted for chats of that search.
+ */
+async function isChatOfAlert(env: Env, chatId: number | undefined, alertId: string): Promise<boolean> {
+    if (chatId === undefined) return false;
+
+    const row = await env.DB.prepare(`
+        SELECT 1 FROM alerts a
+        JOIN telegram_chats c ON c.search_id = a.search_id
+        WHERE a.id = ? AND c.chat_id = ?
+    `).bind(alertId, String(chatId)).first();
+
+    return row !== null;
+}
+
+/**
+ * Handle an update posted by Telegram to /telegram/webhook:
+ * - inline button presses set the alert status (favorite/muted), for chats
+ *   registered on the alert's search only
+ * - /start replies with the chat id to register via the API
+ */
+export async function handleTelegramUpdate(env: Env, update: TelegramUpdate): Promise<void> {
+    const { updateAlertStatus } = await import('./diff-engine');
+
+    const callback = update.callback_query;
+    if (callback) {
+        const [action, alertId] = (callback.data || '').split(':');
+        const status = CALLBACK_ACTIONS[action];
+
+        let text = 'Ação desconhecida';
+        if (status && alertId && !(await isChatOfAlert(env, callback.message?.chat.id, alertId))) {
+            text = 'Alerta não encontrado';
+        } else if (status && alertId) {
+            const updated = await updateAlertStatus(env, alertId, status);
+            text = !updated ? 'Alerta não encontrado' : status === 'favorite' ? '⭐ Favoritado' : '🔇 Silenciado';
+        }
+
+        await callTelegram(env, 'answerCallbackQuery', { callback_query_id: callback.id, text });
+        return;
+    }
+
+    const message = update.message;
+    if (message?.text?.startsWith('/start')) {
+        await callTelegram(env, 'sendMessage', {
+            chat_id: message.chat.id,
+            text: `Olá! O id deste chat é ${message.chat.id}. Registre-o em POST /api/searches/:id/telegram para receber os alertas aqui.`,
+        });
+    }
+}
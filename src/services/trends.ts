@@ -0,0 +1,170 @@
+/**
+ * Trends Service
+ * Time series of one model within a scope: per day, week or month, the median
+ * asking price and mileage of the ads listed in it and how many ads appeared
+ * and were removed
+ */
+
+import { Env } from '../types';
+import { canonicalAlertsSql } from './ads';
+import { loadCatalog, normalizeVehicle } from './catalog';
+import { getMedian } from './scoring';
+import { parseDbTimestamp } from './scheduler';
+
+export type TrendBucket = 'day' | 'week' | 'month';
+
+// Buckets returned when no ?since is given
+const DEFAULT_BUCKETS: Record<TrendBucket, number> = { day: 30, week: 12, month: 12 };
+
+// Longest series returned (older buckets are dropped)
+const MAX_BUCKETS = 120;
+
+// D1 limits bound parameters per statement, so lookups are chunked
+const LOOKUP_CHUNK_SIZE = 90;
+
+export interface TrendPoint {
+    bucket_start: string;         // YYYY-MM-DD (UTC), Monday for weeks, 1st for months
+    median_price: number | null;  // Reais, of the ads listed in the bucket, at their listing price
+    median_mileage: number | null;
+    new_count: number;            // Ads first seen in the bucket
+    removed_count: number;        // Ads that left OLX in the bucket
+}
+
+export interface ModelTrend {
+    model: string;
+    bucket: TrendBucket;
+    points: TrendPoint[];         // Oldest first, empty buckets included
+}
+
+interface TrendAd {
+    list_id: string;
+    price_cents: number | null;
+    mileage: number | null;
+    created_at: string;
+    removed_at: string | null;
+}
+
+export function isTrendBucket(value: string | null): value is TrendBucket {
+    return value === 'day' || value === 'week' || value === 'month';
+}
+
+/**
+ * Start (epoch ms, UTC) of the bucket containing a timestamp
+ */
+export function bucketStart(ts: number, bucket: TrendBucket): number {
+    const date = new Date(ts);
+    date.setUTCHours(0, 0, 0, 0);
+    if (bucket === 'week') {
+        date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    } else if (bucket === 'month') {
+        date.setUTCDate(1);
+    }
+    return date.getTime();
+}
+
+function nextBucketStart(start: number, bucket: TrendBucket): number {
+    const date = new Date(start);
+    if (bucket === 'day') date.setUTCDate(date.getUTCDate() + 1);
+    else if (bucket === 'week') date.setUTCDate(date.getUTCDate() + 7);
+    else date.setUTCMonth(date.getUTCMonth() + 1);
+    return date.getTime();
+}
+
+/**
+ * Price (reais) each ad was first seen at, so later price drops do not pull
+ * older buckets down
+ */
+async function getListingPrices(env: Env, listIds: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+
+    for (let i = 0; i < listIds.length; i += LOOKUP_CHUNK_SIZE) {
+        const chunk = listIds.slice(i, i + LOOKUP_CHUNK_SIZE);
+        const { results } = await env.DB.prepare(`
+            SELECT list_id, price_value FROM price_history
+            WHERE list_id IN (${chunk.map(() => '?').join(', ')})
+            ORDER BY id ASC
+        `).bind(...chunk).all<{ list_id: string; price_value: number }>();
+
+        // Rows come oldest first, so the first one per list_id is kept
+        for (const row of results) {
+            if (!prices.has(row.list_id)) prices.set(row.list_id, row.price_value);
+        }
+    }
+
+    return prices;
+}
+
+/**
+ * Trend of a model within a scope (a WHERE clause over alerts), from `since`
+ * (default: the last DEFAULT_BUCKETS buckets) to now. The model goes through
+ * the catalog, so "onix" matches the stored "Chevrolet Onix".
+ */
+export async function getModelTrend(
+    env: Env,
+    scopeSql: string,
+    bindings: unknown[],
+    options: { model: string; bucket: TrendBucket; since?: number; now?: number }
+): Promise<ModelTrend> {
+    const now = options.now ?? Date.now();
+    const { bucket } = options;
+
+    const catalog = await loadCatalog(env);
+    const model = normalizeVehicle(catalog, { brand: null, model: options.model, version: null }).model || options.model;
+
+    let first = bucketStart(options.since ?? now, bucket);
+    if (options.since === undefined) {
+        for (let i = 1; i < DEFAULT_BUCKETS[bucket]; i++) {
+            first = bucketStart(first - 1, bucket);
+        }
+    }
+
+    const starts: number[] = [];
+    for (let start = first; start <= now; start = nextBucketStart(start, bucket)) {
+        starts.push(start);
+    }
+    const buckets = starts.slice(-MAX_BUCKETS);
+    // Date only, so it compares right against both SQLite and ISO timestamps
+    const since = new Date(buckets[0]).toISOString().slice(0, 10);
+
+    // Ads of the model that appeared or were removed within the range
+    const { results: ads } = await env.DB.prepare(`
+        SELECT list_id, price_cents, mileage, created_at, removed_at
+        FROM (${canonicalAlertsSql(scopeSql)})
+        WHERE model = ? COLLATE NOCASE AND (created_at >= ? OR removed_at >= ?)
+    `).bind(...bindings, model, since, since).all<TrendAd>();
+
+    const listingPrices = await getListingPrices(env, ads.map(ad => ad.list_id));
+    const points = new Map<number, { prices: number[]; mileages: number[]; new_count: number; removed_count: number }>(
+        buckets.map(start => [start, { prices: [], mileages: [], new_count: 0, removed_count: 0 }])
+    );
+
+    for (const ad of ads) {
+        const created = parseDbTimestamp(ad.created_at);
+        const listed = created === null ? undefined : points.get(bucketStart(created, bucket));
+        if (listed) {
+            listed.new_count++;
+            const price = listingPrices.get(ad.list_id) ?? (ad.price_cents ? ad.price_cents / 100 : null);
+            if (price) listed.prices.push(price);
+            if (ad.mileage) listed.mileages.push(ad.mileage);
+        }
+
+        const removed = parseDbTimestamp(ad.removed_at);
+        const removedIn = removed === null ? undefined : points.get(bucketStart(removed, bucket));
+        if (removedIn) removedIn.removed_count++;
+    }
+
+    return {
+        model,
+        bucket,
+        points: buckets.map(start => {
+            const point = points.get(start)!;
+            return {
+                bucket_start: new Date(start).toISOString().slice(0, 10),
+                median_price: point.prices.length > 0 ? getMedian(point.prices) : null,
+                median_mileage: point.mileages.length > 0 ? Math.round(getMedian(point.mileages)) : null,
+                new_count: point.new_count,
+                removed_count: point.removed_count,
+            };
+        }),
+    };
+}
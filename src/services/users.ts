@@ -0,0 +1,127 @@
+/**
+ * Users Service
+ * User accounts and their personal API tokens (stored hashed, shown once on creation)
+ */
+
+import { Env, User, ApiToken, CreateUserRequest } from '../types';
+
+// Account that owns pre-existing data (created by migration 12).
+// The shared env.API_TOKEN authenticates as it, without a DB lookup, so that
+// migrations can still be applied on a database that has no users table yet.
+export const ADMIN_USER_ID = 'admin';
+
+const ADMIN_USER: User = {
+    id: ADMIN_USER_ID,
+    name: 'Admin',
+    email: null,
+    is_admin: 1,
+    created_at: '',
+};
+
+const TOKEN_PREFIX = 'ocf_';
+const TOKEN_PREFIX_LENGTH = 12; // Characters kept in clear to identify a token
+
+// last_used_at is refreshed at most this often, to avoid a write per request
+const LAST_USED_RESOLUTION = '-1 hour';
+
+function toHex(buffer: ArrayBuffer | Uint8Array): string {
+    return Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generate a random API token (ocf_ + 64 hex chars)
+ */
+export function generateToken(): string {
+    return TOKEN_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * SHA-256 of a token, hex encoded. Tokens are random, so no salt is needed.
+ */
+export async function hashToken(token: string): Promise<string> {
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)));
+}
+
+export function isAdmin(user: User): boolean {
+    return user.is_admin === 1;
+}
+
+/**
+ * Resolve the user of an API token. Returns null for unknown or revoked tokens.
+ */
+export async function findUserByToken(env: Env, token: string): Promise<User | null> {
+    if (env.API_TOKEN && token === env.API_TOKEN) {
+        return ADMIN_USER;
+    }
+
+    const tokenHash = await hashToken(token);
+    const row = await env.DB.prepare(`
+        SELECT u.*, t.id as token_id
+        FROM api_tokens t
+        JOIN users u ON u.id = t.user_id
+        WHERE t.token_hash = ? AND t.revoked_at IS NULL
+    `).bind(tokenHash).first<User & { token_id: string }>();
+
+    if (!row) return null;
+
+    await env.DB.prepare(`
+        UPDATE api_tokens SET last_used_at = datetime('now')
+        WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', ?))
+    `).bind(row.token_id, LAST_USED_RESOLUTION).run();
+
+    const { token_id, ...user } = row;
+    return user;
+}
+
+export async function listUsers(env: Env): Promise<User[]> {
+    const { results } = await env.DB.prepare(
+        'SELECT * FROM users ORDER BY created_at ASC'
+    ).all<User>();
+    return results;
+}
+
+export async function createUser(env: Env, request: CreateUserRequest): Promise<User> {
+    const id = crypto.randomUUID();
+    await env.DB.prepare(
+        'INSERT INTO users (id, name, email, is_admin) VALUES (?, ?, ?, ?)'
+    ).bind(id, request.name, request.email || null, request.is_admin ? 1 : 0).run();
+
+    return (await env.DB.prepare('SELECT * FROM users WHERE id = ?').bind(id).first<User>())!;
+}
+
+/**
+ * Issue a new token for a user. The plain token is only returned here.
+ */
+export async function createToken(env: Env, userId: string, name: string | null): Promise<ApiToken & { token: string }> {
+    const id = crypto.randomUUID();
+    const token = generateToken();
+
+    await env.DB.prepare(
+        'INSERT INTO api_tokens (id, user_id, name, token_hash, token_prefix) VALUES (?, ?, ?, ?, ?)'
+    ).bind(id, userId, name, await hashToken(token), token.slice(0, TOKEN_PREFIX_LENGTH)).run();
+
+    const row = await env.DB.prepare(
+        'SELECT id, user_id, name, token_prefix, last_used_at, revoked_at, created_at FROM api_tokens WHERE id = ?'
+    ).bind(id).first<ApiToken>();
+
+    return { ...row!, token };
+}
+
+export async function listTokens(env: Env, userId: string): Promise<ApiToken[]> {
+    const { results } = await env.DB.prepare(`
+        SELECT id, user_id, name, token_prefix, last_used_at, revoked_at, created_at
+        FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC
+    `).bind(userId).all<ApiToken>();
+    return results;
+}
+
+/**
+ * Revoke one of the user's tokens. Returns false if it does not exist or is already revoked.
+ */
+export async function revokeToken(env: Env, userId: string, tokenId: string): Promise<boolean> {
+    const result = await env.DB.prepare(
+        "UPDATE api_tokens SET revoked_at = datetime('now') WHERE id = ? AND user_id = ? AND revoked_at IS NULL"
+    ).bind(tokenId, userId).run();
+
+    return result.meta.changes > 0;
+}
@@ -0,0 +1,179 @@
+/**
+ * Webhooks Service
+ * Posts signed JSON payloads of new alerts to registered URLs, with retries and a delivery log
+ */
+
+import { Env, Alert, SavedSearchRow, Webhook, WebhookDelivery } from '../types';
+
+// Delivery policy
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;   // 500ms, 1s, ...
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface WebhookPayload {
+    event: 'alerts.created' | 'webhook.test';
+    search: { id: string; name: string };
+    alerts: Alert[];
+    sent_at: string;
+}
+
+/**
+ * Generate a random signing secret (hex)
+ */
+export function generateSecret(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * HMAC-SHA256 signature of `${timestamp}.${body}`, hex encoded.
+ * Receivers recompute it with their copy of the secret to verify the sender.
+ */
+export async function signPayload(secret: string, timestamp: string, body: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+    return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Validate a webhook URL from the API. Returns an error message or null.
+ */
+export function validateWebhookUrl(url: unknown): string | null {
+    if (typeof url !== 'string' || !url) return 'url is required';
+    try {
+        const parsed = new URL(url);
+        if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+            return 'url must be http(s)';
+        }
+    } catch {
+        return 'url is invalid';
+    }
+    return null;
+}
+
+function isRetryable(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+/**
+ * POST a payload to one webhook, retrying network errors, 429 and 5xx
+ */
+async function deliver(webhook: Webhook, payload: WebhookPayload): Promise<Omit<WebhookDelivery, 'id' | 'created_at'>> {
+    const body = JSON.stringify(payload);
+    const startTime = Date.now();
+    let attempts = 0;
+    let responseStatus: number | null = null;
+    let errorMessage: string | null = null;
+
+    while (attempts < MAX_ATTEMPTS) {
+        attempts++;
+        const timestamp = String(Math.floor(Date.now() / 1000));
+
+        try {
+            const signature = await signPayload(webhook.secret, timestamp, body);
+            const response = await fetch(webhook.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'olx-car-finder-webhooks',
+                    'X-OLX-Event': payload.event,
+                    'X-OLX-Timestamp': timestamp,
+                    'X-OLX-Signature': `sha256=${signature}`,
+                },
+                body,
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+
+            responseStatus = response.status;
+            if (response.ok) {
+                errorMessage = null;
+                break;
+            }
+
+            errorMessage = `HTTP ${response.status}`;
+            if (!isRetryable(response.status)) break;
+        } catch (error) {
+            responseStatus = null;
+            errorMessage = String(error);
+        }
+
+        if (attempts < MAX_ATTEMPTS) {
+            await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)));
+        }
+    }
+
+    return {
+        webhook_id: webhook.id,
+        search_id: webhook.search_id,
+        event: payload.event,
+        alerts_count: payload.alerts.length,
+        status: errorMessage === null ? 'delivered' : 'failed',
+        attempts,
+        response_status: responseStatus,
+        error_message: errorMessage,
+        duration_ms: Date.now() - startTime,
+    };
+}
+
+async function logDelivery(env: Env, delivery: Omit<WebhookDelivery, 'id' | 'created_at'>): Promise<void> {
+    try {
+        await env.DB.prepare(`
+            INSERT INTO webhook_deliveries
+            (webhook_id, search_id, event, alerts_count, status, attempts, response_status, error_message, duration_ms, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+        `).bind(
+            delivery.webhook_id,
+            delivery.search_id,
+            delivery.event,
+            delivery.alerts_count,
+            delivery.status,
+            delivery.attempts,
+            delivery.response_status,
+            delivery.error_message,
+            delivery.duration_ms
+        ).run();
+    } catch (err) {
+        console.error('Failed to log webhook delivery:', err);
+    }
+}
+
+/**
+ * Send a payload to one webhook and record the outcome
+ */
+export async function sendWebhook(env: Env, webhook: Webhook, payload: WebhookPayload): Promise<Omit<WebhookDelivery, 'id' | 'created_at'>> {
+    const delivery = await deliver(webhook, payload);
+    await logDelivery(env, delivery);
+
+    if (delivery.status === 'failed') {
+        console.warn(`Webhook ${webhook.id} failed after ${delivery.attempts} attempts: ${delivery.error_message}`);
+    }
+    return delivery;
+}
+
+/**
+ * Notify every active webhook of a search about newly created alerts
+ */
+export async function notifyWebhooks(env: Env, search: SavedSearchRow, alerts: Alert[]): Promise<void> {
+    if (alerts.length === 0) return;
+
+    const { results: webhooks } = await env.DB.prepare(
+        'SELECT * FROM webhooks WHERE search_id = ? AND active = 1'
+    ).bind(search.id).all<Webhook>();
+
+    if (webhooks.length === 0) return;
+
+    const payload: WebhookPayload = {
+        event: 'alerts.created',
+        search: { id: search.id, name: search.name },
+        alerts,
+        sent_at: new Date().toISOString(),
+    };
+
+    await Promise.all(webhooks.map(webhook => sendWebhook(env, webhook, payload)));
+}
@@ -3,34 +3,71 @@
 export interface Env {
     DB: D1Database;
     API_TOKEN: string;
+    TELEGRAM_BOT_TOKEN?: string;       // Enables the Telegram channel
+    TELEGRAM_WEBHOOK_SECRET?: string;  // Checked against X-Telegram-Bot-Api-Secret-Token
+    DIGEST_WEBHOOK_URL?: string;       // Receives digests as { subject, html, text } (e.g. an email relay)
+    SHARE_LINK_SECRET?: string;        // Signs share links (falls back to API_TOKEN)
 }
 
 export interface SavedSearch {
     id: string;
+    user_id: string | null;
     name: string;
     human_url: string;
     check_period_minutes: number;
     model_whitelist: string[];
     model_blacklist: string[];
+    ignored_brands: string[];
+    ignored_models: string[];
+    rules: SearchRules;
+    opportunity_weights: OpportunityWeights;
+    min_group_size: number;
     last_checked_at: string | null;
-    last_sp_scanned: number;
+    last_sp_scanned: number;        // Deep crawl cursor: last page read (0 = next cycle starts after the quick scan)
+    crawl_enabled: number;          // 1 = walk every page over several runs
+    crawl_anchor_id: string | null; // Page 1's first list_id when the current crawl cycle started
+    enrich_enabled: number;         // 1 = fetch the detail page of each new alert
     created_at: string;
     updated_at: string;
 }
 
 export interface SavedSearchRow {
     id: string;
+    user_id: string | null;
     name: string;
     human_url: string;
     check_period_minutes: number;
     model_whitelist: string;  // JSON string
     model_blacklist: string;  // JSON string
+    ignored_brands: string;   // JSON string
+    ignored_models: string;   // JSON string
+    rules: string;            // JSON string (SearchRules)
+    opportunity_weights: string; // JSON string (OpportunityWeights)
+    min_group_size: number;
     last_checked_at: string | null;
-    last_sp_scanned: number;
+    last_sp_scanned: number;        // Deep crawl cursor: last page read (0 = next cycle starts after the quick scan)
+    crawl_enabled: number;          // 1 = walk every page over several runs
+    crawl_anchor_id: string | null; // Page 1's first list_id when the current crawl cycle started
+    enrich_enabled: number;         // 1 = fetch the detail page of each new alert
     created_at: string;
     updated_at: string;
 }
 
+// Listing filters evaluated server-side during scans (prices in reais)
+export interface SearchRules {
+    min_price?: number | null;
+    max_price?: number | null;
+    max_mileage?: number | null;
+    min_year?: number | null;
+    max_year?: number | null;
+    include_municipalities?: string[];
+    exclude_municipalities?: string[];
+    include_keywords?: string[];   // Subject must contain at least one
+    exclude_keywords?: string[];   // Subject must contain none
+    ignored_brands?: string[];     // Stored in saved_searches.ignored_brands
+    ignored_models?: string[];     // Stored in saved_searches.ignored_models
+}
+
 export interface SeenId {
     id: number;
     search_id: string;
@@ -46,9 +83,13 @@ export interface ExecutionLog {
     listings_count: number;
     new_listings_count: number;
     first_list_id: string | null;
-    stop_reason: 'completed' | 'limit' | 'loop' | 'error' | 'empty' | 'budget';
+    stop_reason: 'completed' | 'limit' | 'loop' | 'error' | 'empty' | 'budget' | 'blocked';
+    mode: 'quick' | 'crawl';
+    fetch_strategy: 'next_data' | 'html';  // html = __NEXT_DATA__ of the search pages (fallback)
     duration_ms: number;
     requests_count: number;
+    retries_count: number;
+    fetch_decisions: string | null;  // JSON FetchDecision[] of the fetch policy
     error_message?: string;
     created_at: string;
 }
@@ -56,21 +97,82 @@ export interface ExecutionLog {
 export interface Alert {
     id: number;
     search_id: string;
+    user_id: string | null;
     list_id: string;
     subject: string | null;
     price: string | null;
     municipality: string | null;
     neighbourhood: string | null;
     ad_url: string;
+    brand: string | null;
     model: string | null;
     thumbnail_url: string | null;
     mileage: number | null;
+    price_cents: number | null;
+    year: number | null;
+    version: string | null;
+    fuel: string | null;
+    gearbox: string | null;
+    color: string | null;
+    doors: number | null;
+    engine: string | null;
+    car_type: string | null;
+    steering: string | null;
     status: 'new' | 'seen' | 'opened' | 'muted' | 'favorite';
+    alert_type: 'new' | 'price_drop';
+    previous_price: string | null; // Price before the last drop (price_drop only)
+    last_seen_at: string | null;   // Last scan that returned this ad
+    missed_scans: number;          // Consecutive covering scans without this ad
+    removed_at: string | null;     // Set once the ad is considered sold/removed
+    repost_of: string | null;      // list_id of the earlier publication of the same car
+    repost_count: number;          // Times the car was published again (0 = original)
+    original_price_cents: number | null; // Price when the car was first published (reposts only)
+    description: string | null;    // Detail page fields (searches with enrich_enabled, new alerts only)
+    photos: string | null;         // JSON string[] of image URLs
+    optionals: string | null;      // JSON string[] (Ar condicionado, Direção hidráulica...)
+    seller_type: 'professional' | 'private' | null;
+    phone_verified: number | null; // 1 = the seller's phone is verified
+    enriched_at: string | null;
     created_at: string;
     explanation?: string; // New: Explanation for ranking/opportunity
     badges?: string[];    // New: Visual badges (e.g., "Oportunidade", "KM Baixo")
 }
 
+// Per-search weights for opportunity scoring (saved_searches.opportunity_weights)
+export interface OpportunityWeights {
+    price: number;
+    km: number;
+    recency: number;
+    year: number;
+}
+
+export interface ScoreComponent {
+    value: number | null;   // Raw input (ratio vs median, hours since listed, years vs median)
+    points: number;         // Component score before weighting
+    weight: number;
+    contribution: number;   // points * weight / 100
+}
+
+export interface ScoredOpportunity extends Alert {
+    brand: string;
+    median: number;
+    comparison: 'model_year' | 'model' | 'brand' | 'reference'; // Group the ad was compared against (reference: price table, no group big enough)
+    pctBelowMedian: number;
+    reference_price: number | null;   // Imported reference table price (reais), independent of the sample
+    pct_vs_reference: number | null;  // Negative = below the reference price
+    score: number;
+    score_breakdown: Record<keyof OpportunityWeights, ScoreComponent>;
+    explanation: string;
+    badges: string[];
+}
+
+// A listing as returned by /listings: brand filled in, compared to the reference price table
+export interface ListingView extends Alert {
+    brand: string;
+    reference_price: number | null;
+    pct_vs_reference: number | null;
+}
+
 export interface Listing {
     list_id: string;
     search_id: string;
@@ -84,9 +186,181 @@ export interface Listing {
     date_ts: string | null;
     thumbnail_url: string | null;
     mileage: number | null;
+    price_cents: number | null;   // Numeric price parsed from "R$ 35.900"
+    year: number | null;          // regdate
+    version: string | null;       // vehicle_version
+    fuel: string | null;          // fuel (Flex, Gasolina, Diesel...)
+    gearbox: string | null;       // gearbox (Manual, Automático...)
+    color: string | null;         // carcolor
+    doors: number | null;         // doors
+    engine: string | null;        // motorpower (1.0, 1.6...)
+    car_type: string | null;      // cartype (Hatch, Sedã...)
+    steering: string | null;      // car_steering (Hidráulica, Elétrica...)
     collected_at: string;
 }
 
+// Canonical ad (ads table), shared by every search that matched it
+export interface Ad extends Omit<Listing, 'search_id' | 'date_ts' | 'collected_at'> {
+    first_seen_at: string;
+    last_seen_at: string | null;
+    removed_at: string | null;
+    repost_of: string | null;
+    repost_root: string | null;
+    repost_count: number;
+    original_price_cents: number | null;
+}
+
+export interface PriceHistoryEntry {
+    id: number;
+    list_id: string;
+    search_id: string;
+    price: string | null;
+    price_value: number;
+    first_seen_at: string;
+    last_seen_at: string;
+}
+
+export interface Webhook {
+    id: string;
+    search_id: string;
+    url: string;
+    secret: string;
+    active: number; // 0/1
+    created_at: string;
+}
+
+export interface WebhookDelivery {
+    id: number;
+    webhook_id: string;
+    search_id: string;
+    event: string;
+    alerts_count: number;
+    status: 'delivered' | 'failed';
+    attempts: number;
+    response_status: number | null;
+    error_message: string | null;
+    duration_ms: number;
+    created_at: string;
+}
+
+export interface TelegramChat {
+    id: string;
+    search_id: string;
+    chat_id: string;
+    created_at: string;
+}
+
+// Row of the imported reference price table (FIPE-style)
+export interface ReferencePrice {
+    id: number;
+    brand: string | null;
+    model: string;          // Normalized "Brand Model", same key as alerts.model
+    year: number;
+    version: string;        // Model text as imported ('' when none)
+    price_cents: number;
+    source: string | null;  // Free label of the import (e.g. fipe-2026-10)
+    imported_at: string;
+}
+
+// One row of an uploaded reference table (POST /api/reference-prices)
+export interface ReferencePriceInput {
+    brand: string;
+    model: string;
+    year: number | string;
+    price: number | string;   // Reais: 45000, "45000.00" or "R$ 45.000,00"
+    version?: string;
+}
+
+// A saved search in a backup bundle (GET /api/export, POST /api/import)
+export interface BackupSearch {
+    id: string;
+    name: string;
+    human_url: string;
+    check_period_minutes: number;
+    model_whitelist: string[];
+    model_blacklist: string[];
+    ignored_brands: string[];
+    ignored_models: string[];
+    rules: SearchRules;
+    opportunity_weights: OpportunityWeights;
+    min_group_size: number;
+    crawl_enabled: boolean;
+    enrich_enabled: boolean;
+    created_at: string;
+    alert_statuses: Record<string, Alert['status']>;  // list_id -> status, only alerts no longer 'new'
+    seen_ids: string[];
+}
+
+export interface BackupBundle {
+    format: string;               // 'olx-car-finder-backup'
+    version: number;              // Bumped when the bundle layout changes
+    exported_at: string;
+    searches: BackupSearch[];
+}
+
+export type CatalogKind = 'brand' | 'model' | 'version';
+
+// Canonical name of a brand, a model (of a brand) or a version (of a model)
+export interface CatalogEntry {
+    id: number;
+    kind: CatalogKind;
+    brand: string;   // Canonical brand ('' for brands)
+    model: string;   // Canonical model ('' unless a version)
+    name: string;
+    created_at: string;
+}
+
+export interface CatalogAlias {
+    id: number;
+    entry_id: number;
+    alias: string;   // Lookup key: lowercase, no accents or punctuation
+    created_at: string;
+}
+
+export interface User {
+    id: string;
+    name: string;
+    email: string | null;
+    is_admin: number; // 0/1
+    created_at: string;
+}
+
+export interface ApiToken {
+    id: string;
+    user_id: string;
+    name: string | null;
+    token_prefix: string;
+    last_used_at: string | null;
+    revoked_at: string | null;
+    created_at: string;
+}
+
+export interface CreateUserRequest {
+    name: string;
+    email?: string;
+    is_admin?: boolean;
+}
+
+// Access to a saved search: the owner, or a member added by the owner
+export type SearchRole = 'owner' | 'editor' | 'viewer';
+
+export interface SearchMember {
+    search_id: string;
+    user_id: string;
+    role: Exclude<SearchRole, 'owner'>;
+    created_at: string;
+}
+
+export interface SearchShare {
+    id: string;
+    search_id: string;
+    created_by: string;
+    label: string | null;
+    expires_at: string;
+    revoked_at: string | null;
+    created_at: string;
+}
+
 // OLX API response types
 export interface OlxAdProperty {
     name?: string;   // e.g., 'vehicle_brand', 'vehicle_model', 'regdate', 'mileage'
@@ -113,6 +387,25 @@ export interface OlxAd {
     date?: string;
 }
 
+// Ad object embedded in an ad detail page
+export interface OlxAdDetail {
+    listId?: number;
+    description?: string;
+    images?: Array<{
+        original?: string;
+        originalWebp?: string;
+    }>;
+    properties?: OlxAdProperty[];
+    professionalAd?: boolean;
+    user?: {
+        professionalAd?: boolean;
+        accountType?: string;
+    };
+    phone?: {
+        phoneVerified?: boolean;
+    };
+}
+
 export interface OlxSearchResponse {
     pageProps?: {
         ads?: OlxAd[];
@@ -131,6 +424,25 @@ export interface UpdateSearchRequest {
     check_period_minutes?: number;
     model_whitelist?: string[];
     model_blacklist?: string[];
+    ignored_brands?: string[];
+    ignored_models?: string[];
+    min_group_size?: number;
+    crawl_enabled?: boolean;
+    enrich_enabled?: boolean;
+    opportunity_weights?: Partial<OpportunityWeights>;
+    rules?: Omit<SearchRules, 'ignored_brands' | 'ignored_models'>;
+}
+
+export interface CreateWebhookRequest {
+    url: string;
+}
+
+export interface CreateCatalogEntryRequest {
+    kind: CatalogKind;
+    name: string;
+    brand?: string;     // Models and versions
+    model?: string;     // Versions
+    aliases?: string[];
 }
 
 export interface ApiResponse<T = unknown> {
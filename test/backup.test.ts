@@ -0,0 +1,91 @@
+// Backup import into a database that has none of the bundle's alerts yet
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { BackupBundle, BackupSearch, Env, User } from '../src/types';
+import { BACKUP_FORMAT, BACKUP_VERSION, importBackup } from '../src/services/backup';
+import { createAlerts } from '../src/services/diff-engine';
+import { parseAd } from '../src/services/olx-fetcher';
+import { createTestEnv } from './d1';
+import { firstPageAds, loadFixtureFile } from './fixtures';
+
+const user = { id: 'admin' } as User;
+const file = loadFixtureFile('estado-rs.json');
+const [favorite, muted, seen] = firstPageAds(file);
+
+function backupSearch(fields: Partial<BackupSearch> = {}): BackupSearch {
+    return {
+        id: 'search-1',
+        name: 'RS',
+        human_url: file.search_url,
+        check_period_minutes: 60,
+        model_whitelist: [],
+        model_blacklist: [],
+        ignored_brands: [],
+        ignored_models: [],
+        rules: {},
+        opportunity_weights: { price: 70, km: 20, recency: 10, year: 0 },
+        min_group_size: 5,
+        crawl_enabled: false,
+        enrich_enabled: false,
+        created_at: '2024-06-01T00:00:00.000Z',
+        alert_statuses: { [favorite.listId]: 'favorite', [muted.listId]: 'muted' },
+        seen_ids: [favorite, muted, seen].map(ad => String(ad.listId)),
+        ...fields,
+    };
+}
+
+function bundle(...searches: BackupSearch[]): BackupBundle {
+    return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exported_at: new Date().toISOString(), searches };
+}
+
+let env: Env;
+let dispose: () => Promise<void>;
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    ({ env, dispose } = await createTestEnv());
+});
+
+afterAll(async () => {
+    await dispose();
+});
+
+describe('importBackup', () => {
+    it('keeps the statuses of ads without an alert until the search creates it', async () => {
+        const result = await importBackup(env, bundle(backupSearch()), user, 'merge');
+
+        expect(result).toMatchObject({ searches_created: 1, statuses_pending: 2, statuses_applied: 0, seen_ids_added: 1 });
+
+        // Ads with a pending status stay unseen, so the next scan alerts them again
+        const { results: seenIds } = await env.DB.prepare('SELECT list_id FROM seen_ids WHERE search_id = ?')
+            .bind('search-1')
+            .all<{ list_id: string }>();
+        expect(seenIds.map(row => row.list_id)).toEqual([String(seen.listId)]);
+
+        const alerts = await createAlerts(env, { id: 'search-1', user_id: user.id }, [favorite, muted].map(ad => parseAd(ad, 'search-1')));
+        expect(alerts.map(alert => alert.status)).toEqual(['favorite', 'muted']);
+
+        const { results: stored } = await env.DB.prepare('SELECT list_id, status FROM alerts WHERE search_id = ? ORDER BY id')
+            .bind('search-1')
+            .all();
+        expect(stored).toEqual([
+            { list_id: String(favorite.listId), status: 'favorite' },
+            { list_id: String(muted.listId), status: 'muted' },
+        ]);
+        const pending = await env.DB.prepare('SELECT COUNT(*) as count FROM pending_alert_statuses').first<{ count: number }>();
+        expect(pending?.count).toBe(0);
+    });
+
+    it('rejects searches with an invalid check period or group size', async () => {
+        const result = await importBackup(env, bundle(
+            backupSearch({ id: 'search-2', check_period_minutes: -5 }),
+            backupSearch({ id: 'search-3', min_group_size: '3' as unknown as number }),
+        ), user, 'merge');
+
+        expect(result.searches_created).toBe(0);
+        expect(result.conflicts).toEqual([
+            { search_id: 'search-2', reason: 'invalid', resolution: 'skipped', detail: 'check_period_minutes must be a positive integer' },
+            { search_id: 'search-3', reason: 'invalid', resolution: 'skipped', detail: 'min_group_size must be a positive integer' },
+        ]);
+    });
+});
@@ -0,0 +1,18 @@
+// In-memory D1 (through wrangler's local runtime) with every migration applied
+
+import { getPlatformProxy } from 'wrangler';
+import type { Env } from '../src/types';
+import { runMigrations } from '../src/services/migrator';
+
+export async function createTestEnv(): Promise<{ env: Env; dispose: () => Promise<void> }> {
+    const proxy = await getPlatformProxy<Env>({ configPath: new URL('../wrangler.jsonc', import.meta.url).pathname, persist: false });
+    const env = proxy.env;
+
+    const migrated = await runMigrations(env);
+    if (migrated.error) {
+        await proxy.dispose();
+        throw new Error(migrated.error);
+    }
+
+    return { env, dispose: () => proxy.dispose() };
+}
@@ -0,0 +1,65 @@
+// Alert bookkeeping of the diff engine, on an in-memory D1
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Env } from '../src/types';
+import { createAlerts, createPriceDropAlerts, updateAlertStatus } from '../src/services/diff-engine';
+import { parseAd } from '../src/services/olx-fetcher';
+import { createTestEnv } from './d1';
+import { firstPageAds, loadFixtureFile } from './fixtures';
+
+const search = { id: 'search-1', user_id: 'admin' };
+
+let env: Env;
+let dispose: () => Promise<void>;
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    ({ env, dispose } = await createTestEnv());
+    await env.DB.prepare("INSERT INTO saved_searches (id, user_id, name, human_url) VALUES (?, ?, 'RS', ?)")
+        .bind(search.id, search.user_id, loadFixtureFile('estado-rs.json').search_url)
+        .run();
+});
+
+afterAll(async () => {
+    await dispose();
+});
+
+beforeEach(async () => {
+    await env.DB.prepare('DELETE FROM alerts').run();
+});
+
+describe('createPriceDropAlerts', () => {
+    const [ad] = firstPageAds(loadFixtureFile('estado-rs.json'));
+    const listing = parseAd(ad, search.id);
+    const dropped = { ...listing, price: 'R$ 31.900', price_cents: 3_190_000 };
+    const change = { list_id: listing.list_id, old_price: listing.price, new_price: dropped.price, old_value: 34_900, new_value: 31_900 };
+
+    it('keeps the status of a favorited ad that drops in price', async () => {
+        const [created] = await createAlerts(env, search, [listing]);
+        await updateAlertStatus(env, created.id, 'favorite');
+
+        const [alert] = await createPriceDropAlerts(env, search, [{ listing: dropped, change }]);
+
+        expect(alert).toMatchObject({ id: created.id, status: 'favorite', alert_type: 'price_drop', previous_price: 'R$ 34.900' });
+        const row = await env.DB.prepare('SELECT status, alert_type, price, previous_price FROM alerts WHERE id = ?')
+            .bind(created.id)
+            .first();
+        expect(row).toEqual({ status: 'favorite', alert_type: 'price_drop', price: 'R$ 31.900', previous_price: 'R$ 34.900' });
+    });
+
+    it('returns muted alerts as muted, so they are not notified', async () => {
+        const [created] = await createAlerts(env, search, [listing]);
+        await updateAlertStatus(env, created.id, 'muted');
+
+        const [alert] = await createPriceDropAlerts(env, search, [{ listing: dropped, change }]);
+
+        expect(alert.status).toBe('muted');
+    });
+
+    it('creates a new alert for a drop of an ad the search had no alert for', async () => {
+        const [alert] = await createPriceDropAlerts(env, search, [{ listing: dropped, change }]);
+
+        expect(alert).toMatchObject({ status: 'new', alert_type: 'price_drop', price: 'R$ 31.900' });
+        expect(alert.id).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,54 @@
+// Digest periods and scope, on an in-memory D1
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Env, User } from '../src/types';
+import { buildDigest } from '../src/services/digest';
+import { createTestEnv } from './d1';
+
+// 2024-06-11 12:00 UTC
+const NOW = Date.UTC(2024, 5, 11, 12);
+
+const viewer: User = { id: 'viewer', name: 'Viewer', email: null, is_admin: 0, created_at: '2024-06-01 00:00:00' };
+
+let env: Env;
+let dispose: () => Promise<void>;
+
+beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    ({ env, dispose } = await createTestEnv());
+
+    const insertAlert = env.DB.prepare(
+        "INSERT INTO alerts (search_id, user_id, list_id, subject, model, price, ad_url, created_at) VALUES ('shared', 'admin', ?, ?, 'Fiat Palio', 'R$ 27.500', ?, ?)"
+    );
+    await env.DB.batch([
+        env.DB.prepare("INSERT INTO users (id, name) VALUES ('viewer', 'Viewer')"),
+        env.DB.prepare("INSERT INTO saved_searches (id, user_id, name, human_url) VALUES ('shared', 'admin', 'RS', 'https://www.olx.com.br/estado-rs')"),
+        env.DB.prepare("INSERT INTO search_members (search_id, user_id, role) VALUES ('shared', 'viewer', 'viewer')"),
+        // Within the last day, one in SQLite's datetime('now') format and one as ISO
+        insertAlert.bind('1', 'Palio 2014', 'https://rs.olx.com.br/1', '2024-06-10 13:00:00'),
+        insertAlert.bind('2', 'Palio 2015', 'https://rs.olx.com.br/2', '2024-06-11T09:00:00.000Z'),
+        // The day before, and after the period
+        insertAlert.bind('3', 'Palio 2013', 'https://rs.olx.com.br/3', '2024-06-10 08:00:00'),
+        insertAlert.bind('4', 'Palio 2016', 'https://rs.olx.com.br/4', '2024-06-11 12:30:00'),
+    ]);
+});
+
+afterAll(async () => {
+    await dispose();
+});
+
+describe('buildDigest', () => {
+    it('covers searches shared with the user', async () => {
+        const digest = await buildDigest(env, 'day', { user: viewer, now: NOW });
+
+        expect(digest.sections.map(section => section.search.id)).toEqual(['shared']);
+    });
+
+    it('places alerts in their period whatever their timestamp format', async () => {
+        const [section] = (await buildDigest(env, 'day', { user: viewer, now: NOW })).sections;
+
+        expect(section.new_count).toBe(2);
+        expect(section.new_alerts.map(alert => alert.list_id).sort()).toEqual(['1', '2']);
+        expect(section.model_changes).toEqual([{ model: 'Fiat Palio', current: 2, previous: 1, delta: 1 }]);
+    });
+});
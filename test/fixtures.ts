@@ -0,0 +1,16 @@
+// Fixture files of fixtures/olx (--record format of scripts/test-olx-fetch.ts)
+
+import { readFileSync } from 'fs';
+import type { OlxAd, OlxSearchResponse } from '../src/types';
+import type { HttpFixtureFile } from '../src/services/http-transport';
+
+export function loadFixtureFile(name: string): HttpFixtureFile {
+    return JSON.parse(readFileSync(new URL(`../fixtures/olx/${name}`, import.meta.url), 'utf8'));
+}
+
+// Ads of the first _next/data page of a fixture file
+export function firstPageAds(file: HttpFixtureFile): OlxAd[] {
+    const page = file.fixtures.find(fixture => fixture.url.startsWith('/_next/data/') && fixture.status === 200)!;
+    const data: OlxSearchResponse = JSON.parse(page.body);
+    return (data.pageProps?.ads || []).filter(ad => ad.listId);
+}
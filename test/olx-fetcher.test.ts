@@ -0,0 +1,203 @@
+// OLX fetcher against the fixtures of fixtures/olx (--record format of scripts/test-olx-fetch.ts),
+// replayed through the HTTP transport so nothing reaches olx.com.br
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HttpFixtureFile } from '../src/services/http-transport';
+import { firstPageAds, loadFixtureFile } from './fixtures';
+
+type Fetcher = typeof import('../src/services/olx-fetcher');
+
+/**
+ * Fresh fetcher modules (the buildId cache and the throttle are per module)
+ * answering from the given fixture file
+ */
+async function replayFetcher(name: string): Promise<{ fetcher: Fetcher; file: HttpFixtureFile; requested: string[] }> {
+    vi.resetModules();
+    const { createReplayTransport, fixtureKey, setTransport } = await import('../src/services/http-transport');
+    const fetcher = await import('../src/services/olx-fetcher');
+
+    const file = loadFixtureFile(name);
+    const replay = createReplayTransport(file.fixtures);
+    const requested: string[] = [];
+    setTransport((url, init) => {
+        requested.push(fixtureKey(url));
+        return replay(url, init);
+    });
+
+    return { fetcher, file, requested };
+}
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+});
+
+describe('parseAd', () => {
+    it('maps the structured properties of a recorded ad', async () => {
+        const { parseAd } = await import('../src/services/olx-fetcher');
+        const [ad] = firstPageAds(loadFixtureFile('estado-rs.json'));
+
+        const listing = parseAd(ad, 'search-1');
+
+        expect(listing).toMatchObject({
+            list_id: '1301457755',
+            search_id: 'search-1',
+            subject: 'Chevrolet Onix 1.0 LT 2016',
+            price: 'R$ 34.900',
+            price_cents: 3_490_000,
+            municipality: 'Porto Alegre',
+            neighbourhood: 'Partenon',
+            brand: 'Chevrolet',
+            model: 'Chevrolet Onix Hatch',
+            version: '1.0 MPFI LT 8V FLEX 4P MANUAL',
+            year: 2016,
+            mileage: 98_000,
+            fuel: 'Flex',
+            gearbox: 'Manual',
+            color: 'Prata',
+            doors: 4,
+            car_type: 'Hatch',
+            steering: 'Hidráulica',
+            date_ts: 1718103600,
+        });
+        expect(listing.ad_url).toBe(ad.url);
+        expect(listing.thumbnail_url).toBe(ad.images![0].original);
+    });
+
+    it('resolves brand aliases and drops brand words repeated in the model', async () => {
+        const { parseAd } = await import('../src/services/olx-fetcher');
+        const gol = firstPageAds(loadFixtureFile('estado-rs.json')).find(ad => ad.listId === 1301449012)!;
+
+        expect(parseAd(gol, 'search-1')).toMatchObject({ brand: 'Volkswagen', model: 'Volkswagen Gol' });
+    });
+
+    it('falls back to labels, then to the subject', async () => {
+        const { parseAd } = await import('../src/services/olx-fetcher');
+        const [ad] = firstPageAds(loadFixtureFile('estado-rs.json'));
+
+        const byLabel = parseAd({
+            ...ad,
+            properties: ad.properties!.map(({ label, value }) => ({ label, value })),
+        }, 'search-1');
+        expect(byLabel).toMatchObject({ model: 'Chevrolet Onix Hatch', year: 2016, mileage: 98_000 });
+
+        const bySubject = parseAd({ ...ad, subject: 'Vendo Onix LT 2016 1.0', properties: undefined }, 'search-1');
+        expect(bySubject).toMatchObject({ brand: null, model: 'Onix Lt', year: null, mileage: null });
+    });
+
+    it('makes relative ad URLs absolute', async () => {
+        const { parseAd } = await import('../src/services/olx-fetcher');
+        const [ad] = firstPageAds(loadFixtureFile('estado-rs.json'));
+
+        expect(parseAd({ ...ad, url: '/item/1301457755' }, 'search-1').ad_url).toBe('https://www.olx.com.br/item/1301457755');
+    });
+});
+
+describe('buildDataUrl', () => {
+    it('builds the _next/data URLs the fixtures were recorded at', async () => {
+        const { buildDataUrl } = await import('../src/services/olx-fetcher');
+        const { fixtureKey } = await import('../src/services/http-transport');
+        const file = loadFixtureFile('estado-rs.json');
+        const dataUrls = file.fixtures.filter(fixture => fixture.url.startsWith('/_next/data/')).map(fixture => fixture.url);
+
+        expect([1, 2].map(page => fixtureKey(buildDataUrl(file.search_url, 'tKq7bXxVbC2WQm3n9Jx0R', page)))).toEqual(dataUrls);
+    });
+
+    it('keeps the search params and only adds sp after the first page', async () => {
+        const { buildDataUrl } = await import('../src/services/olx-fetcher');
+        const humanUrl = 'https://sp.olx.com.br/autos-e-pecas/carros-vans-e-utilitarios?q=civic&sf=1';
+
+        expect(buildDataUrl(humanUrl, 'build-1')).toBe(
+            'https://www.olx.com.br/_next/data/build-1/autos-e-pecas/carros-vans-e-utilitarios.json?q=civic&sf=1'
+        );
+        expect(new URL(buildDataUrl(humanUrl, 'build-1', 3)).searchParams.get('sp')).toBe('3');
+    });
+});
+
+describe('parseNextData', () => {
+    it('reads the ads of the __NEXT_DATA__ of a search page', async () => {
+        const { parseNextData } = await import('../src/services/olx-fetcher');
+        const [page] = loadFixtureFile('html-fallback.json').fixtures;
+
+        expect(parseNextData(page.body)?.map(ad => ad.listId)).toEqual([1301457755, 1301452210, 1301449012]);
+    });
+
+    it('returns null for a page without __NEXT_DATA__', async () => {
+        const { parseNextData } = await import('../src/services/olx-fetcher');
+        const challenge = loadFixtureFile('data-without-ads.json').fixtures.at(-1)!;
+
+        expect(parseNextData(challenge.body)).toBeNull();
+        expect(parseNextData('<script id="__NEXT_DATA__" type="application/json">{"props":</script>')).toBeNull();
+    });
+});
+
+describe('fetchAllPages (replayed)', () => {
+    it('reads every page from the data endpoint', async () => {
+        const { fetcher, file, requested } = await replayFetcher('estado-rs.json');
+
+        const stats = await fetcher.fetchAllPages(file.search_url, 'search-1', file.pages);
+
+        expect(stats.stop_reason).toBe('limit');
+        expect(stats.strategy).toBe('next_data');
+        expect(stats.listings.map(l => l.list_id)).toEqual([
+            '1301457755', '1301452210', '1301449012', '1301440871', '1301437654',
+        ]);
+        expect(stats.first_list_id).toBe('1301457755');
+        expect(stats.last_page).toBe(2);
+        expect(requested).toEqual(file.fixtures.map(fixture => fixture.url));
+    });
+
+    it('refreshes a stale buildId on 404 and retries the page', async () => {
+        const { fetcher, file, requested } = await replayFetcher('stale-build-id.json');
+
+        const stats = await fetcher.fetchAllPages(file.search_url, 'search-1', file.pages);
+
+        expect(stats.stop_reason).toBe('limit');
+        expect(stats.strategy).toBe('next_data');
+        expect(stats.listings).toHaveLength(5);
+        expect(stats.requests_count).toBe(5);
+        expect(requested.filter(url => url.startsWith('/_next/data/a1PpZk0rV6uWc8s2Hd4Tn/'))).toHaveLength(1);
+        expect(requested.filter(url => url.startsWith('/_next/data/tKq7bXxVbC2WQm3n9Jx0R/'))).toHaveLength(2);
+
+        // The refreshed buildId is cached for the next scan
+        expect(await fetcher.getBuildId(file.search_url)).toBe('tKq7bXxVbC2WQm3n9Jx0R');
+    });
+
+    it('falls back to the HTML pages when the data endpoint keeps answering 404', async () => {
+        const { fetcher, file, requested } = await replayFetcher('html-fallback.json');
+
+        const stats = await fetcher.fetchAllPages(file.search_url, 'search-1', file.pages);
+
+        expect(stats.stop_reason).toBe('limit');
+        expect(stats.strategy).toBe('html');
+        expect(stats.listings.map(l => l.list_id)).toEqual([
+            '1301457755', '1301452210', '1301449012', '1301440871', '1301437654',
+        ]);
+        expect(requested).toEqual(file.fixtures.map(fixture => fixture.url));
+    });
+
+    it('falls back to the HTML pages when the data endpoint has no pageProps.ads', async () => {
+        const { fetcher, file, requested } = await replayFetcher('data-without-ads.json');
+
+        const stats = await fetcher.fetchAllPages(file.search_url, 'search-1', file.pages);
+
+        expect(stats.strategy).toBe('html');
+        expect(stats.listings).toHaveLength(3);
+        expect(requested).toEqual(file.fixtures.map(fixture => fixture.url));
+
+        // Page 2 came back without __NEXT_DATA__ (a challenge page)
+        expect(stats.stop_reason).toBe('error');
+        expect(stats.error_message).toBe('No __NEXT_DATA__ in search page');
+    });
+
+    it('stops when a page repeats the first listing of an earlier one', async () => {
+        const { fetcher, file } = await replayFetcher('pagination-loop.json');
+
+        const stats = await fetcher.fetchAllPages(file.search_url, 'search-1', file.pages);
+
+        expect(stats.stop_reason).toBe('loop');
+        expect(stats.last_page).toBe(1);
+        expect(stats.listings).toHaveLength(3);
+    });
+});
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    // Migration files are imported as text, as wrangler bundles them
+    plugins: [{
+        name: 'sql-text',
+        transform(code, id) {
+            if (id.endsWith('.sql')) return `export default ${JSON.stringify(code)};`;
+        },
+    }],
+    test: {
+        include: ['test/**/*.test.ts'],
+        // Replayed requests still go through the fetch policy's throttle (500ms apart)
+        testTimeout: 20_000,
+    },
+});